@@ -1 +1,2 @@
-console.log(require("./stats.json").modules.map(c=>c.id).filter(c=>!c.match(/basic-languages/)));
+const stats=require("./stats.json");
+console.log((stats.children?stats.children[0]:stats).modules.map(c=>c.id).filter(c=>!c.match(/basic-languages/)));
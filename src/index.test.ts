@@ -0,0 +1,793 @@
+/// <reference types="mocha" />
+/// <reference types="node" />
+
+'use strict';
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isPromiseCanceledError } from 'vs/base/common/errors';
+import { Emitter } from 'vs/base/common/event';
+import { TokenizationRegistry } from 'vs/editor/common/modes';
+import { ModesRegistry, PLAINTEXT_MODE_ID } from 'vs/editor/common/modes/modesRegistry';
+import { IColorizerOptions } from 'vs/editor/standalone/browser/colorizer';
+import { IColorizeAllOptions } from 'vs/editor/standalone/browser/pageColorizer';
+import { DiffLineType, IDiffLine, computeLineDiff, parseUnifiedDiff } from 'vs/editor/standalone/common/lineDiff';
+import { compile } from 'vs/editor/standalone/common/monarch/monarchCompile';
+import { MonarchTokenizer } from 'vs/editor/standalone/common/monarch/monarchLexer';
+import { IMonarchLanguage } from 'vs/editor/standalone/common/monarch/monarchTypes';
+import { registerThemingParticipant } from 'vs/platform/theme/common/themeService';
+import * as StandaloneMonarch from './index';
+
+/**
+ * Just enough of the DOM for `colorizeAll`, selectors are lists of tag names.
+ */
+class FakeElement {
+	public readonly nodeType = 1;
+	public parentElement: FakeElement | null = null;
+	public children: FakeElement[] = [];
+	public readonly classList: any;
+	/**
+	 * The elements `innerHTML` was set on, in order.
+	 */
+	public static writes: FakeElement[] = [];
+	private readonly _attributes: { [name: string]: string };
+	private _text: string;
+
+	constructor(public readonly tagName: string, attributes: { [name: string]: string }, content: string | FakeElement[]) {
+		this._attributes = attributes;
+		this.classList = (attributes['class'] || '').split(' ').filter(name => !!name);
+		this.classList.add = (name: string) => this.classList.push(name);
+		this._text = typeof content === 'string' ? content : '';
+		if (typeof content !== 'string') {
+			content.forEach(child => this.appendChild(child));
+		}
+	}
+
+	public get textContent(): string {
+		return this._text + this.children.map(child => child.textContent).join('');
+	}
+
+	public set innerHTML(html: string) {
+		this._text = html;
+		this.children = [];
+		FakeElement.writes.push(this);
+	}
+
+	public get innerHTML(): string {
+		return this._text;
+	}
+
+	public appendChild(child: FakeElement): FakeElement {
+		child.parentElement = this;
+		this.children.push(child);
+		return child;
+	}
+
+	public getAttribute(name: string): string | null {
+		return name in this._attributes ? this._attributes[name] : null;
+	}
+
+	public setAttribute(name: string, value: string): void {
+		this._attributes[name] = value;
+	}
+
+	public hasAttribute(name: string): boolean {
+		return name in this._attributes;
+	}
+
+	public matches(selector: string): boolean {
+		return selector.split(',').some(tagName => tagName.trim() === this.tagName);
+	}
+
+	public closest(selector: string): FakeElement | null {
+		let element: FakeElement | null = this;
+		while (element && !element.matches(selector)) {
+			element = element.parentElement;
+		}
+		return element;
+	}
+
+	public querySelectorAll(selector: string): FakeElement[] {
+		let result: FakeElement[] = [];
+		for (const child of this.children) {
+			if (child.matches(selector)) {
+				result.push(child);
+			}
+			result = result.concat(child.querySelectorAll(selector));
+		}
+		return result;
+	}
+}
+
+class FakeObserver {
+	public static instances: FakeObserver[] = [];
+	public observed: FakeElement[] = [];
+	public disconnected = false;
+
+	constructor(public readonly callback: (entries: any[]) => void) {
+		FakeObserver.instances.push(this);
+	}
+
+	public observe(target: FakeElement): void {
+		this.observed.push(target);
+	}
+
+	public unobserve(target: FakeElement): void {
+		this.observed.splice(this.observed.indexOf(target), 1);
+	}
+
+	public disconnect(): void {
+		this.disconnected = true;
+	}
+}
+
+/**
+ * Run `callback` with the fake DOM installed, a viewport 1000px high.
+ */
+function withDom<T>(callback: () => Promise<T>): Promise<T> {
+	// the theme service looks for a document when it is created
+	StandaloneMonarch.getThemeCSS();
+	const globals: any = global;
+	const dom: { [name: string]: any } = {
+		Element: FakeElement,
+		Node: { ELEMENT_NODE: 1 },
+		MutationObserver: FakeObserver,
+		IntersectionObserver: FakeObserver,
+		window: { innerHeight: 1000 },
+		document: { documentElement: { clientHeight: 1000 } }
+	};
+	const names = Object.keys(dom);
+	const saved = names.map(name => globals[name]);
+	FakeElement.writes = [];
+	FakeObserver.instances = [];
+	names.forEach(name => globals[name] = dom[name]);
+	const restore = () => names.forEach((name, i) => globals[name] = saved[i]);
+	return callback().then(result => {
+		restore();
+		return result;
+	}, err => {
+		restore();
+		throw err;
+	});
+}
+
+/**
+ * Resolves once `condition` holds, the test times out otherwise.
+ */
+function until(condition: () => boolean): Promise<void> {
+	return condition() ? Promise.resolve() : new Promise<void>(resolve => setTimeout(resolve, 5)).then(() => until(condition));
+}
+
+suite('headless', () => {
+
+	test('runs without a DOM', () => {
+		assert.equal(typeof document, 'undefined');
+	});
+
+	test('removes the disposed listener of an emitter', () => {
+		// the language loaders listen to `onLanguage` and are removed in any order
+		const emitter = new Emitter<void>();
+		let calls: string[] = [];
+		const a = emitter.event(() => calls.push('a'));
+		const b = emitter.event(() => calls.push('b'));
+		emitter.event(() => calls.push('c'));
+		a.dispose();
+		b.dispose();
+		emitter.fire(undefined);
+		assert.deepEqual(calls, ['c']);
+	});
+
+	test('keeps the theme CSS in memory', () => {
+		StandaloneMonarch.setTheme('vs-dark');
+		assert.ok(StandaloneMonarch.getThemeCSS().indexOf('.mtk1 { color: #d4d4d4; }') >= 0);
+		StandaloneMonarch.setTheme('vs');
+		assert.ok(StandaloneMonarch.getThemeCSS().indexOf('.mtk1 { color: #000000; }') >= 0);
+	});
+
+	test('registers custom languages', () => {
+		const registration = StandaloneMonarch.registerLanguage({
+			id: 'testdsl',
+			extensions: ['.testdsl'],
+			monarch: { tokenizer: { root: [[/\b(?:let|in)\b/, 'keyword'], [/\w+/, 'identifier']] } }
+		});
+		assert.ok(StandaloneMonarch.getLanguages().some(language => language.id === 'testdsl'));
+		return StandaloneMonarch.colorize('let x in y', null, { filename: 'a.testdsl' }).then(html => {
+			assert.ok(html.indexOf('>let</span>') >= 0);
+			registration.dispose();
+			assert.equal(TokenizationRegistry.get('testdsl'), null);
+		});
+	});
+
+	test('loads grammars lazily', () => {
+		let loaded = 0;
+		const language: IMonarchLanguage = { tokenizer: { root: [[/\w+/, 'keyword']] } };
+		StandaloneMonarch.registerLanguage({
+			id: 'testlazy',
+			monarch: () => {
+				loaded++;
+				return Promise.resolve(language);
+			}
+		});
+		assert.equal(loaded, 0);
+		return StandaloneMonarch.colorize('lazy', 'testlazy', {}).then(html => {
+			assert.equal(loaded, 1);
+			assert.ok(html.indexOf('>lazy</span>') >= 0);
+		});
+	});
+
+	test('loads grammars of languages registered again', () => {
+		const register = (token: string) => StandaloneMonarch.registerLanguage({
+			id: 'testreload',
+			monarch: () => Promise.resolve<IMonarchLanguage>({ tokenizer: { root: [[/\w+/, token]] } })
+		});
+		const first = register('keyword');
+		return StandaloneMonarch.colorize('a', 'testreload', {}).then(() => {
+			first.dispose();
+			register('string');
+			// the mode exists already, without loading the grammar right away this would wait for loadTimeout
+			return StandaloneMonarch.colorize('a', 'testreload', { output: 'semanticClassNames', loadTimeout: 1000 });
+		}).then(html => {
+			assert.ok(html.indexOf('class="mt mt-string mt-string-testreload mtl-testreload"') >= 0);
+		});
+	});
+
+	test('rejects with the language when a grammar fails to load', () => {
+		StandaloneMonarch.registerLanguage({
+			id: 'testbroken',
+			monarch: Promise.reject(new Error('offline'))
+		});
+		return StandaloneMonarch.colorize('x', 'testbroken', {}).then(() => assert.fail('resolved'), err => {
+			assert.equal(err.languageId, 'testbroken');
+			assert.ok(err.message.indexOf('offline') >= 0);
+		});
+	});
+
+	test('stops waiting after loadTimeout', () => {
+		StandaloneMonarch.registerLanguage({ id: 'testslow', monarch: new Promise<any>(() => { }) });
+		return StandaloneMonarch.colorize('x', 'testslow', { loadTimeout: 10 }).then(html => {
+			assert.equal(html, '<span><span class="mtk1">x</span></span><br/>');
+			return StandaloneMonarch.tokenize('x', 'testslow', 10);
+		}).then(lines => {
+			assert.deepEqual(lines[0].map(token => [token.type, token.language]), [['', 'testslow']]);
+		});
+	});
+
+	test('cancels chunked colorization', () => {
+		StandaloneMonarch.registerLanguage({ id: 'testchunkslow', monarch: new Promise<any>(() => { }) });
+		const loading = new StandaloneMonarch.CancellationTokenSource();
+		const whileLoading = StandaloneMonarch.colorizeChunked('x', 'testchunkslow', {}, loading.token);
+		setTimeout(() => loading.cancel(), 10);
+
+		let progress: number[] = [];
+		const rendering = new StandaloneMonarch.CancellationTokenSource();
+		const whileRendering = StandaloneMonarch.colorizeChunked('a\nb\nc', 'javascript', {
+			chunkTime: 0,
+			onProgress: renderedLines => {
+				progress.push(renderedLines);
+				rendering.cancel();
+			}
+		}, rendering.token);
+
+		const rejects = (promise: Promise<string>) => promise.then(() => assert.fail('resolved'), err => assert.ok(isPromiseCanceledError(err), err.message));
+		return Promise.all([rejects(whileLoading), rejects(whileRendering)]).then(() => {
+			// `chunkTime: 0` renders one line per chunk
+			assert.deepEqual(progress, [1]);
+		});
+	});
+
+	test('renders again once an embedded language has loaded', () => {
+		StandaloneMonarch.registerLanguage({
+			id: 'testembedded',
+			monarch: () => new Promise<IMonarchLanguage>(resolve => setTimeout(() => resolve({ tokenizer: { root: [[/\w+/, 'keyword']] } }), 50))
+		});
+		StandaloneMonarch.registerLanguage({
+			id: 'testembedding',
+			monarch: {
+				tokenizer: {
+					root: [[/<</, { token: 'delimiter', next: '@embedded', nextEmbedded: 'testembedded' }], [/\/\*/, 'comment', '@comment'], [/\w+/, 'identifier'], [/\s+/, 'white']],
+					embedded: [[/>>/, { token: 'delimiter', next: '@pop', nextEmbedded: '@pop' }], [/[^>]+/, '']],
+					comment: [[/\*\//, 'comment', '@pop'], [/./, 'comment']]
+				}
+			}
+		});
+		// the last line ends in a comment, rendering again starts over with the first line
+		const text = 'a <<b>>\nc /* d';
+		let progress: number[] = [];
+		return Promise.all([
+			StandaloneMonarch.colorize(text, 'testembedding', { output: 'semanticClassNames' }),
+			StandaloneMonarch.colorizeChunked(text, 'testembedding', { output: 'semanticClassNames', chunkTime: 0, onProgress: renderedLines => progress.push(renderedLines) })
+		]).then(results => {
+			assert.equal(results[1], results[0]);
+			const lines = results[0].split('<br/>');
+			assert.ok(/^<span><span class="[^"]* mt-identifier-testembedding [^"]*">a<\/span>/.test(lines[0]), lines[0]);
+			assert.ok(lines[0].indexOf('mt-keyword-testembedded mtl-testembedded">b</span>') >= 0, lines[0]);
+			assert.ok(lines[1].indexOf('mt-comment') >= 0, lines[1]);
+			assert.deepEqual(progress, [1, 2, 1, 2]);
+		});
+	});
+
+	test('round-trips grammars through JSON', () => {
+		const keywords = ['let', 'in'];
+		const language: IMonarchLanguage = <any>{
+			keywords,
+			reserved: keywords,
+			symbols: /[=<>]+/i,
+			tokenizer: { root: [[/[a-z]+/, { cases: { '@keywords': 'keyword', '@default': 'identifier' } }]] }
+		};
+		const parsed: any = StandaloneMonarch.parseMonarch(StandaloneMonarch.serializeMonarch(language));
+		assert.deepEqual(parsed, language);
+		assert.equal(parsed.reserved, parsed.keywords);
+		assert.ok(parsed.symbols instanceof RegExp && parsed.symbols.ignoreCase);
+	});
+
+	test('loads grammars from files', () => {
+		const file = path.join(os.tmpdir(), 'standalone-monarch-test.json');
+		fs.writeFileSync(file, JSON.stringify({ tokenizer: { root: [[{ $regex: '\\d+' }, 'number']] } }));
+		StandaloneMonarch.registerLanguage({ id: 'testjson', monarch: () => StandaloneMonarch.loadMonarch(file) });
+		return StandaloneMonarch.tokenize('42', 'testjson').then(lines => {
+			fs.unlinkSync(file);
+			assert.equal(lines[0][0].type, 'number.testjson');
+		});
+	});
+
+	test('validates grammars', () => {
+		const diagnostics = StandaloneMonarch.validateMonarch(<any>{
+			unused: ['a'],
+			tokenizer: {
+				root: [[/./, 'source'], [/"/, 'string', '@strnig']],
+				string: [[/"/, 'string', '@pop']]
+			}
+		});
+		assert.deepEqual(diagnostics.map(d => [d.severity, d.code, d.path]), [
+			['error', 'undefined-state', 'tokenizer.root[1][2]'],
+			['warning', 'unreachable-rule', 'tokenizer.root[1]'],
+			['warning', 'unreachable-state', 'tokenizer.string'],
+			['warning', 'unused-attribute', 'unused']
+		]);
+	});
+
+	test('compiles grammars with warnings only', () => {
+		const language: any = {
+			start: 'nowhere',
+			tokenizer: {
+				root: [[/[a-z]+/, 'identifier'], [/#/, { token: 'comment', switchTo: '@elsewhere' }]],
+				empty: {}
+			}
+		};
+		assert.deepEqual(StandaloneMonarch.validateMonarch(language).map(d => [d.severity, d.code, d.path]), [
+			['warning', 'undefined-state', 'tokenizer.root[1][1].switchTo'],
+			['warning', 'invalid-state', 'tokenizer.empty'],
+			['warning', 'undefined-state', 'start']
+		]);
+		assert.equal(compile('testwarnings', language).start, 'nowhere');
+
+		language.tokenizer.root.push([/"/, 'string', '@strnig'], [/'/, { token: 'string', bracket: '@other' }]);
+		assert.throws(() => compile('testwarnings', language), (err: any) =>
+			err.name === 'MonarchCompileError' && err.diagnostics.length === 2 && /^testwarnings: the next state '@strnig' is not defined/.test(err.message));
+	});
+
+	test('traces grammars', () => {
+		return StandaloneMonarch.trace('<b>\n<script>x</script>', 'html').then(trace => {
+			assert.equal(trace.lines.length, 2);
+			const step = trace.lines[0].steps.filter(s => s.token === 'tag.html')[0];
+			assert.equal(step.matched, 'b');
+			assert.deepEqual(step.events, [{ kind: 'push', value: 'otherTag' }]);
+			assert.deepEqual(trace.lines[1].embedded, [{ offset: 8, languageId: 'javascript', text: 'x' }]);
+			assert.deepEqual(trace.lines[1].endStack, ['root']);
+			return StandaloneMonarch.traceReport('<b>', 'html');
+		}).then(html => {
+			assert.ok(/^<table class="mttr">/.test(html));
+		});
+	});
+
+	test('renders line numbers', () => {
+		StandaloneMonarch.defineTheme('test-gutter', { base: 'vs', inherit: true, rules: [], colors: { 'editorLineNumber.foreground': '#123456' } });
+		return Promise.all([
+			StandaloneMonarch.colorize('a\nb', 'javascript', { lineNumbers: { start: 9, anchorPrefix: 'L"<' } }),
+			StandaloneMonarch.colorize('a', 'javascript', { lineNumbers: { width: 5 }, output: 'inlineStyles', theme: 'test-gutter' })
+		]).then(([classNames, inlineStyles]) => {
+			// the width fits the last line number
+			assert.ok(classNames.indexOf('<a class="mtln" data-line-number="9" style="width: 2ch;" id="L&quot;&lt;9" href="#L&quot;&lt;9"></a>') >= 0, classNames);
+			assert.ok(classNames.indexOf('<a class="mtln" data-line-number="10" style="width: 2ch;" id="L&quot;&lt;10" href="#L&quot;&lt;10"></a>') >= 0, classNames);
+			assert.ok(/<span style="display: inline-block;[^"]* width: 5ch; color: #123456;">1<\/span>/.test(inlineStyles), inlineStyles);
+		});
+	});
+
+	test('highlights lines and ranges', () => {
+		const rejects = (options: IColorizerOptions, message: RegExp) =>
+			StandaloneMonarch.colorize('a\nb', 'javascript', options).then(() => assert.fail('resolved'), err => assert.ok(message.test(err.message), err.message));
+		return StandaloneMonarch.colorize('a\nb\nc', 'javascript', { highlightLines: ['2-5'] }).then(html => {
+			assert.equal(html.split('mthl').length, 3);
+			assert.ok(/^<span><span class="mtk\d+">a<\/span><\/span><br\/><span><span class="mtk\d+ mthl">b/.test(html), html);
+		}).then(() => rejects({ highlightLines: [0] }, /highlightLines: 0/))
+			.then(() => rejects({ highlightLines: [1], output: 'inlineStyles' }, /"classNames" output, not "inlineStyles"/))
+			.then(() => rejects({ ranges: [{ startLine: 1, startColumn: 1, endLine: 1, endColumn: 2, className: 'x' }], output: 'semanticClassNames' }, /not "semanticClassNames"/))
+			.then(() => StandaloneMonarch.colorize('ab\nc', 'javascript', { ranges: [{ startLine: 1, startColumn: 2, endLine: 2, endColumn: 2, className: 'x' }] }))
+			.then(html => {
+				assert.equal(html.split(' x"').length, 3, html);
+				const range = (startLine: number, startColumn: number, endLine: number, endColumn: number) => ({ ranges: [{ startLine, startColumn, endLine, endColumn, className: 'x' }] });
+				return Promise.all([
+					rejects(range(0, 1, 1, 2), /ranges: 0:1-1:2/),
+					rejects(range(-1, 1, 1, 2), /ranges: -1:1-1:2/),
+					rejects(range(1, 1, 3, 1), /ranges: 1:1-3:1/),
+					rejects(range(1, 1, 1, 3), /ranges: 1:1-1:3/),
+					rejects(range(1, 0, 1, 1), /ranges: 1:0-1:1/),
+					rejects(range(2, 1, 1, 1), /ranges: 2:1-1:1/),
+					rejects(range(1, 2, 1, 1), /ranges: 1:2-1:1/)
+				]);
+			});
+	});
+
+	test('diffs lines with the fewest edits', () => {
+		const format = (lines: IDiffLine[]) => lines.map(line => `${' +-@'.charAt(line.type)}${line.content} ${line.originalLineNumber}/${line.modifiedLineNumber}`);
+		assert.deepEqual(format(computeLineDiff(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd', 'e'])), [
+			' a 1/1', '-b 2/0', '+x 0/2', ' c 3/3', ' d 4/4', '+e 0/5'
+		]);
+		// the example of Myers' paper, 5 edits
+		const original = ['a', 'b', 'c', 'a', 'b', 'b', 'a'];
+		const modified = ['c', 'b', 'a', 'b', 'a', 'c'];
+		const diff = computeLineDiff(original, modified);
+		assert.equal(diff.filter(line => line.type !== DiffLineType.Context).length, 5);
+		assert.deepEqual(diff.filter(line => line.type !== DiffLineType.Inserted).map(line => line.content), original);
+		assert.deepEqual(diff.filter(line => line.type !== DiffLineType.Removed).map(line => line.content), modified);
+
+		assert.deepEqual(format(parseUnifiedDiff('--- a/f\n+++ b/f\n@@ -2,2 +2,2 @@\n a\n-b\n+c\n\\ No newline at end of file\ntrailing')), [
+			'@@@ -2,2 +2,2 @@ 0/0', ' a 2/2', '-b 3/0', '+c 0/3'
+		]);
+		return StandaloneMonarch.colorizeDiff({ original: 'a\nb', modified: 'a\nc' }, 'javascript').then(html => {
+			assert.equal(html.split('class="mtdr"').length, 2);
+			assert.equal(html.split('class="mtdi"').length, 2);
+		});
+	});
+
+	test('maps colors to ANSI escape sequences', () => {
+		StandaloneMonarch.defineTheme('test-ansi', { base: 'vs', inherit: true, rules: [{ token: 'keyword', foreground: 'ff8000' }, { token: 'string', foreground: '808080', fontStyle: 'bold' }], colors: {} });
+		const ansi = (text: string, colorDepth: 1 | 4 | 8 | 24) => StandaloneMonarch.colorizeAnsi(text, 'javascript', { theme: 'test-ansi', colorDepth });
+		return Promise.all([ansi('if', 24), ansi('if', 8), ansi('if', 4), ansi('if', 1), ansi('"a"', 8)]).then(results => {
+			assert.deepEqual(results, [
+				'\x1b[38;2;255;128;0mif\x1b[0m',
+				// 6x6x6 cube: 16 + 36 * 5 + 6 * 3 + 0
+				'\x1b[38;5;214mif\x1b[0m',
+				// closest of the 16 xterm colors: yellow (205, 205, 0)
+				'\x1b[33mif\x1b[0m',
+				'if',
+				// grayscale ramp
+				'\x1b[38;5;244;1m"a"\x1b[0m'
+			]);
+		});
+	});
+
+	test('stops waiting after loadTimeout for ANSI output', () => {
+		StandaloneMonarch.registerLanguage({ id: 'testansislow', monarch: new Promise<any>(() => { }) });
+		return StandaloneMonarch.colorizeAnsi('x', 'testansislow', { loadTimeout: 10 }).then(text => {
+			assert.equal(text, 'x');
+		});
+	});
+
+	test('guesses languages from the text', () => {
+		const best = (text: string, candidates: string[]) => StandaloneMonarch.guessLanguage(text, candidates).then(guesses => {
+			assert.deepEqual(guesses.map(guess => guess.languageId).sort(), candidates.slice().sort());
+			for (let i = 1; i < guesses.length; i++) {
+				assert.ok(guesses[i - 1].confidence >= guesses[i].confidence);
+			}
+			return guesses[0];
+		});
+		return Promise.all([
+			best('def add(a, b):\n    """Sum."""\n    return a + b\n', ['javascript', 'python', 'css']),
+			best('SELECT name, email FROM users WHERE id = 1 ORDER BY name;', ['python', 'sql', 'javascript']),
+			best('#!/usr/bin/env python\nprint(1)', ['javascript', 'python']),
+			best('Thanks, it works now after the update!', ['javascript', 'python', 'sql']),
+			StandaloneMonarch.colorize('<div class="a">hi</div>', 'auto', { candidates: ['python', 'html'], output: 'semanticClassNames' })
+		]).then(([python, sql, shebang, prose, html]) => {
+			assert.equal(python.languageId, 'python');
+			assert.equal(sql.languageId, 'sql');
+			assert.deepEqual(shebang, { languageId: 'python', confidence: 1 });
+			assert.ok(prose.confidence < 0.5, String(prose.confidence));
+			assert.ok(html.indexOf('mtl-html') >= 0);
+		});
+	});
+
+	test('renders semantic class names', () => {
+		return StandaloneMonarch.colorize('"\\n"', 'javascript', { output: 'semanticClassNames' }).then(html => {
+			assert.equal(html, '<span><span class="mt mt-string mt-string-js mtl-js">"</span><span class="mt mt-string mt-string-escape mt-string-escape-js mtl-js">\\n</span><span class="mt mt-string mt-string-js mtl-js">"</span></span><br/>');
+			const css = StandaloneMonarch.getSemanticThemeCSS('vs-dark', '.dark');
+			assert.ok(css.indexOf('.dark .mt-string { color: #ce9178; }') >= 0);
+			assert.ok(css.indexOf('.dark .mt-string-key-json { color: #9cdcfe; }') >= 0);
+		});
+	});
+
+	test('colors semantic class names of deeper token types like the theme', () => {
+		return StandaloneMonarch.colorize('<![CDATA[x]]>', 'xml', { output: 'semanticClassNames' }).then(html => {
+			// `vs` colors `delimiter.xml` blue, but not `delimiter.cdata.xml`
+			assert.ok(html.indexOf('class="mt mt-delimiter mt-delimiter-cdata mt-delimiter-cdata-xml mtl-xml"') >= 0);
+			const css = StandaloneMonarch.getSemanticThemeCSS('vs');
+			assert.ok(css.indexOf('.mt-delimiter-xml { color: #0000ff; }') >= 0);
+			assert.equal(css.indexOf('.mt-delimiter-cdata'), -1);
+			assert.equal(css.indexOf('mtl-'), -1);
+		});
+	});
+
+	test('colorizes with several themes side by side', () => {
+		const scope = StandaloneMonarch.addScopedTheme('vs-dark');
+		assert.equal(scope, 'vs-dark');
+		return StandaloneMonarch.colorize('"a"', 'javascript', { theme: 'vs-dark' }).then(html => {
+			const className = /class="(mtk\d+)"/.exec(html)![1];
+			const css = StandaloneMonarch.getThemeCSS();
+			assert.ok(css.indexOf(`.vs-dark .${className} { color: #ce9178; }`) >= 0);
+			assert.ok(css.indexOf('.vs-dark { background-color: #1e1e1e; }') >= 0);
+			// the current theme is left alone
+			assert.ok(css.indexOf('\n.mtk1 { color: #000000; }') >= 0);
+		});
+	});
+
+	test('scopes the rules in media queries', () => {
+		const participant = registerThemingParticipant((theme, collector) => collector.addRule('@media print { .mtk1, .mtln { color: black; } }'));
+		StandaloneMonarch.addScopedTheme('hc-black');
+		const css = StandaloneMonarch.getThemeCSS();
+		participant.dispose();
+		assert.ok(css.indexOf('@media print { .hc-black .mtk1, .hc-black .mtln { color: black; } }') >= 0, css);
+	});
+
+	test('imports VS Code themes', () => {
+		const conversion = StandaloneMonarch.defineTextMateTheme('test-textmate', {
+			type: 'dark',
+			colors: { 'editor.background': '#202020', 'editor.foreground': '#ddd', 'unknown.color': '#ff0000' },
+			tokenColors: [
+				{ scope: 'string.quoted.double', settings: { foreground: '#aa0000' } },
+				{ scope: 'string', settings: { foreground: '#00aa00', fontStyle: 'italic strikethrough' } },
+				{ scope: 'keyword.control, meta.tag string, entity.name.function', settings: { foreground: '#0000aa' } }
+			]
+		}, { scopeMap: { 'keyword.control': 'keyword' } });
+		assert.deepEqual(conversion.unmappedScopes, ['meta.tag string', 'entity.name.function']);
+		assert.deepEqual(conversion.themeData, {
+			base: 'vs-dark',
+			inherit: true,
+			rules: [
+				{ token: '', foreground: 'dddddd', background: '202020' },
+				// `string` is closer to the mapped scope than `string.quoted.double`
+				{ token: 'string', foreground: '00aa00', fontStyle: 'italic' },
+				{ token: 'keyword', foreground: '0000aa' }
+			],
+			colors: { 'editor.background': '#202020', 'editor.foreground': '#ddd' }
+		});
+		return StandaloneMonarch.colorize('"a"', 'javascript', { output: 'inlineStyles', theme: 'test-textmate' }).then(html => {
+			assert.ok(html.indexOf('color: #00aa00;font-style: italic;') >= 0);
+		});
+	});
+
+	test('bases themes on other themes', () => {
+		StandaloneMonarch.defineTheme('test-acme-dark', { base: 'vs-dark', inherit: true, rules: [{ token: 'keyword', foreground: '111111' }], colors: { 'editor.background': '#222222' } });
+		StandaloneMonarch.defineTheme('test-acme-dim', { base: 'test-acme-dark', inherit: true, rules: [{ token: 'string', foreground: '333333' }], colors: {} });
+		let resolved = StandaloneMonarch.getResolvedTheme('test-acme-dim');
+		assert.equal(resolved.base, 'vs-dark');
+		assert.equal(resolved.inherit, false);
+		assert.deepEqual(resolved.rules.slice(-2), [{ token: 'keyword', foreground: '111111' }, { token: 'string', foreground: '333333' }]);
+		assert.equal(resolved.colors['editor.background'], '#222222');
+
+		// redefining a base updates the themes based on it
+		StandaloneMonarch.defineTheme('test-acme-dark', { base: 'vs-dark', inherit: true, rules: [{ token: 'keyword', foreground: '444444' }], colors: {} });
+		resolved = StandaloneMonarch.getResolvedTheme('test-acme-dim');
+		assert.deepEqual(resolved.rules.slice(-2), [{ token: 'keyword', foreground: '444444' }, { token: 'string', foreground: '333333' }]);
+		assert.equal(resolved.colors['editor.background'], '#1E1E1E');
+
+		assert.throws(() => {
+			StandaloneMonarch.defineTheme('test-acme-dark', { base: 'test-acme-dim', inherit: true, rules: [], colors: {} });
+		}, /test-acme-dark > test-acme-dim > test-acme-dark/);
+		assert.throws(() => {
+			StandaloneMonarch.defineTheme('test-acme-light', { base: 'test-acme-unknown', inherit: true, rules: [], colors: {} });
+		}, /Illegal theme base!/);
+		return StandaloneMonarch.colorize('"a" if', 'javascript', { output: 'inlineStyles', theme: 'test-acme-dim' }).then(html => {
+			assert.ok(html.indexOf('color: #333333;') >= 0);
+			assert.ok(html.indexOf('color: #444444;') >= 0);
+		});
+	});
+
+	test('sends the themes colorize calls name to the worker', () => {
+		let messages: any[] = [];
+		const worker: any = { addEventListener() { }, removeEventListener() { }, postMessage(message: any) { messages.push(message); } };
+		const client = StandaloneMonarch.createWorkerClient(worker);
+		StandaloneMonarch.defineTheme('test-worker', { base: 'vs-dark', inherit: true, rules: [{ token: 'string', foreground: '123456' }], colors: {} });
+		client.colorize('"a"', 'javascript', { theme: 'test-worker' }).catch(() => { });
+		client.colorize('"b"', 'javascript', { theme: 'test-worker' }).catch(() => { });
+		client.dispose();
+		assert.deepEqual(messages.map(m => [m.type, m.themeName, m.current]), [
+			['theme', 'vs', true], ['theme', 'test-worker', false], ['colorize', undefined, undefined], ['colorize', undefined, undefined]
+		]);
+		assert.deepEqual(messages[1].themeData.rules.slice(-1), [{ token: 'string', foreground: '123456' }]);
+	});
+
+	test('rejects with the errors of the worker', () => {
+		let listener: (e: any) => void = () => { };
+		const worker: any = {
+			addEventListener(type: string, onMessage: (e: any) => void) { listener = onMessage; },
+			removeEventListener() { },
+			postMessage(message: any) {
+				if (message.type === 'colorize') {
+					const error = { name: 'LanguageLoadError', message: 'Failed to load language \'testworker\': offline', languageId: 'testworker' };
+					setTimeout(() => listener({ data: { id: message.id, error } }));
+				}
+			}
+		};
+		const client = StandaloneMonarch.createWorkerClient(worker);
+		StandaloneMonarch.defineTheme('test-worker-scoped', { base: 'vs', inherit: true, rules: [], colors: {} });
+		return client.colorize('a', 'testworker', { theme: 'test-worker-scoped' }).then(() => assert.fail('resolved'), err => {
+			client.dispose();
+			assert.equal(err.name, 'LanguageLoadError');
+			assert.equal(err.languageId, 'testworker');
+			assert.ok(err.message.indexOf('offline') >= 0);
+			// the classes of the named theme are styled
+			assert.ok(StandaloneMonarch.getThemeCSS().indexOf('.test-worker-scoped .mtk1 {') >= 0);
+		});
+	});
+
+	test('exports themes as CSS variables', () => {
+		const light = StandaloneMonarch.getThemeVariablesCSS('vs');
+		const dark = StandaloneMonarch.getThemeVariablesCSS('vs-dark', { selector: '.dark', colorScheme: 'dark' });
+		assert.ok(/^:root \{ --monarch-default: #000000;/.test(light));
+		assert.ok(light.indexOf('--monarch-editor-background: #fffffe;') >= 0);
+		assert.ok(/^@media \(prefers-color-scheme: dark\) \{ \.dark \{ /.test(dark));
+		assert.ok(dark.indexOf('--monarch-string: #ce9178;') >= 0);
+		// the same variables for every theme, none of them leaks from one theme into another
+		const names = (css: string) => css.match(/--monarch-[\w-]+(?=:)/g);
+		assert.deepEqual(names(light), names(dark));
+		const rules = StandaloneMonarch.getThemeVariableRulesCSS();
+		assert.ok(rules.indexOf('.mt-string-key-json { color: var(--monarch-string-key-json, var(--monarch-string-key, var(--monarch-string, var(--monarch-default))));') >= 0);
+	});
+
+	test('reports grammar coverage', () => {
+		const registration = StandaloneMonarch.registerLanguage({
+			id: 'testcoverage',
+			monarch: <IMonarchLanguage>{
+				keywords: ['let', 'in'],
+				tokenizer: {
+					root: [
+						[/[a-z]+/, { cases: { '@keywords': 'keyword', '@eos': 'identifier', '@default': 'identifier' } }],
+						[/"/, 'string', '@string'],
+						{ include: 'whitespace' }
+					],
+					string: [[/"/, 'string', '@pop'], [/./, 'string']],
+					whitespace: [[/\s+/, 'white']],
+					unused: [[/x/, 'x']]
+				}
+			}
+		});
+		return StandaloneMonarch.coverage(['let x', 'in y'], 'testcoverage').then(report => {
+			registration.dispose();
+			assert.deepEqual(report.states.map(s => [s.path, s.hits]), [
+				['tokenizer.root', 6], ['tokenizer.string', 0], ['tokenizer.whitespace', 0], ['tokenizer.unused', 0]
+			]);
+			assert.deepEqual(report.unusedStates, ['tokenizer.string', 'tokenizer.unused']);
+			assert.deepEqual(report.unmatchedRules, ['tokenizer.root[1]', 'tokenizer.string[0]', 'tokenizer.string[1]', 'tokenizer.unused[0]']);
+			assert.deepEqual(report.untakenBranches, ['tokenizer.root[0][1].cases["@default"]']);
+		});
+	});
+
+	test('recovers from rules that make no progress', () => {
+		const registration = StandaloneMonarch.registerLanguage({
+			id: 'teststuck',
+			monarch: {
+				defaultToken: 'invalid',
+				tokenizer: {
+					root: [[/a/, 'keyword'], [/(?=b)/, '', '@other']],
+					other: [[/(?=b)/, '', '@pop']]
+				}
+			}
+		});
+		let errors: string[] = [];
+		const listener = StandaloneMonarch.onTokenizationError(e => errors.push(`${e.state} ${e.offset}`));
+		return StandaloneMonarch.tokenize('abba', 'teststuck').then(lines => {
+			listener.dispose();
+			registration.dispose();
+			assert.deepEqual(errors, ['root 1']);
+			assert.deepEqual(lines[0].map(token => [token.startIndex, token.type]), [[0, 'keyword.teststuck'], [1, 'invalid.teststuck']]);
+		});
+	});
+
+	// deterministic random text made of characters most grammars care about
+	let seed = 42;
+	const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+	const alphabet = 'abxyzAZ019_ \t\n"\'`<>/\\*#@$%(){}[];:,.=+-!?|&^~';
+	let randomText = '';
+	for (let i = 0; i < 2000; i++) {
+		randomText += alphabet.charAt(Math.floor(random() * alphabet.length));
+	}
+
+	ModesRegistry.getLanguages()
+		.filter(language => language.id !== PLAINTEXT_MODE_ID)
+		.forEach(language => {
+			test(language.id + ' highlights', () => {
+				return StandaloneMonarch.colorize('a', language.id, {}).then(html => {
+					assert.ok(TokenizationRegistry.get(language.id) instanceof MonarchTokenizer);
+					assert.ok(/^<span><span class="mtk\d+/.test(html));
+				});
+			});
+
+			test(language.id + ' survives random input', () => {
+				let errors: string[] = [];
+				const listener = StandaloneMonarch.onTokenizationError(e => errors.push(e.message));
+				return StandaloneMonarch.tokenize(randomText, language.id).then(lines => {
+					listener.dispose();
+					assert.deepEqual(errors, []);
+					assert.equal(lines.length, randomText.split('\n').length);
+				}, err => {
+					listener.dispose();
+					throw err;
+				});
+			});
+		});
+
+	test('colorizes the code blocks of a page', () => withDom(() => {
+		const nested = new FakeElement('code', { class: 'language-css' }, 'b {}');
+		const blocks = [
+			new FakeElement('pre', { class: 'x language-js' }, 'let a'),
+			new FakeElement('pre', { 'data-lang': 'python' }, 'def f(): pass'),
+			new FakeElement('pre', { lang: 'css' }, 'a {}'),
+			new FakeElement('pre', { 'data-filename': 'query.sql' }, 'SELECT 1'),
+			new FakeElement('pre', { class: 'language-javascript' }, [nested]),
+			new FakeElement('pre', {}, 'no language')
+		];
+		const root = new FakeElement('body', {}, blocks);
+		const options: IColorizeAllOptions = { selector: 'pre, code', output: 'semanticClassNames' };
+		return StandaloneMonarch.colorizeAll(<any>root, options).ready.then(() => {
+			assert.deepEqual(blocks.map(block => [block.hasAttribute('data-colorized'), (/mtl-(\w+)/.exec(block.innerHTML) || [])[1]]), [
+				[true, 'js'], [true, 'python'], [true, 'css'], [true, 'sql'], [true, 'js'], [false, undefined]
+			]);
+			// colorized together with the block around it
+			assert.ok(!nested.hasAttribute('data-colorized'));
+			assert.equal(FakeElement.writes.length, 5);
+			return StandaloneMonarch.colorizeAll(<any>root, options).ready;
+		}).then(() => {
+			assert.equal(FakeElement.writes.length, 5);
+		});
+	}));
+
+	test('colorizes the code blocks added to a page', () => withDom(() => {
+		const root = new FakeElement('body', {}, []);
+		const page = StandaloneMonarch.colorizeAll(<any>root, { selector: 'pre', observe: true });
+		const observer = FakeObserver.instances[0];
+		assert.deepEqual(observer.observed, [root]);
+		const added = root.appendChild(new FakeElement('div', {}, [new FakeElement('pre', { lang: 'javascript' }, 'let a')]));
+		observer.callback([{ addedNodes: [{ nodeType: 3 }, added] }]);
+		return until(() => FakeElement.writes.length > 0).then(() => {
+			assert.deepEqual(FakeElement.writes, [added.children[0]]);
+			page.dispose();
+			assert.ok(observer.disconnected);
+		});
+	}));
+
+	test('colorizes the visible code blocks of a page first', () => withDom(() => {
+		const blocks = ['let a', 'let b', 'let c'].map(text => new FakeElement('pre', { lang: 'javascript' }, text));
+		const page = StandaloneMonarch.colorizeAll(<any>new FakeElement('body', {}, blocks), { selector: 'pre', lazy: true });
+		const observer = FakeObserver.instances[0];
+		assert.deepEqual(observer.observed, blocks);
+		assert.deepEqual(FakeElement.writes, []);
+		// the first notification tells what is visible, the first block is only close to the viewport
+		observer.callback([
+			{ target: blocks[0], isIntersecting: true, boundingClientRect: { top: 1100, bottom: 1200 } },
+			{ target: blocks[1], isIntersecting: true, boundingClientRect: { top: 0, bottom: 100 } },
+			{ target: blocks[2], isIntersecting: false, boundingClientRect: { top: 3000, bottom: 3100 } }
+		]);
+		return page.ready.then(() => {
+			assert.deepEqual(FakeElement.writes, [blocks[1]]);
+			return until(() => FakeElement.writes.length === 2);
+		}).then(() => {
+			assert.deepEqual(FakeElement.writes, [blocks[1], blocks[0]]);
+			assert.deepEqual(observer.observed, [blocks[2]]);
+			page.dispose();
+			assert.ok(observer.disconnected);
+		});
+	}));
+
+	test('stops colorizing lazily once disposed', () => withDom(() => {
+		const blocks = ['let a', 'let b'].map(text => new FakeElement('pre', { lang: 'javascript' }, text));
+		const page = StandaloneMonarch.colorizeAll(<any>new FakeElement('body', {}, blocks), { selector: 'pre', lazy: true });
+		FakeObserver.instances[0].callback(blocks.map(target => ({ target, isIntersecting: true, boundingClientRect: { top: 0, bottom: 100 } })));
+		// while the first block is being colorized
+		page.dispose();
+		return page.ready.then(() => new Promise<void>(resolve => setTimeout(resolve, 50))).then(() => {
+			assert.deepEqual(FakeElement.writes, []);
+		});
+	}));
+});
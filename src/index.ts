@@ -1,11 +1,68 @@
 import "./monaco-editor/vs/editor/editor.api";
 import "./monaco-editor/vs/basic-languages/monaco.contribution";
 import { StaticServices } from "./monaco-editor/vs/editor/standalone/browser/standaloneServices";
+import { CancellationToken } from "vs/base/common/cancellation";
+export { CancellationTokenSource } from "vs/base/common/cancellation";
 import {
 	Colorizer,
+	IColorizerChunkedOptions,
 	IColorizerElementOptions,
-	IColorizerOptions
+	IColorizerOptions,
+	IColorizerToken
 } from "vs/editor/standalone/browser/colorizer";
+import { ILanguageGuess } from "vs/editor/standalone/common/languageGuess";
+import {
+	AnsiColorizer,
+	IAnsiColorizerOptions
+} from "vs/editor/standalone/browser/ansiColorizer";
+import {
+	IColorizeAllOptions,
+	PageColorizer
+} from "vs/editor/standalone/browser/pageColorizer";
+import { WorkerClient } from "./workerClient";
+import { IDisposable } from "vs/base/common/lifecycle";
+import { ILanguageExtensionPoint } from "vs/editor/common/services/modeService";
+import * as standaloneLanguages from "vs/editor/standalone/browser/standaloneLanguages";
+import { ILanguageDefinition } from "vs/editor/standalone/browser/standaloneLanguages";
+export { loadMonarch } from "vs/editor/standalone/browser/monarchLoader";
+export {
+	parseMonarch,
+	serializeMonarch
+} from "vs/editor/standalone/common/monarch/monarchJson";
+export { validateMonarch } from "vs/editor/standalone/common/monarch/monarchValidate";
+export {
+	DEFAULT_SCOPE_MAP,
+	convertTextMateTheme
+} from "vs/editor/standalone/common/textMateTheme";
+import { generateSemanticCSS } from "vs/editor/standalone/common/semanticClassNames";
+import {
+	ITextMateTheme,
+	ITextMateThemeConversion,
+	ITextMateThemeOptions,
+	convertTextMateTheme
+} from "vs/editor/standalone/common/textMateTheme";
+import { IStandaloneThemeData } from "vs/editor/standalone/common/standaloneThemeService";
+import {
+	IThemeVariablesOptions,
+	generateThemeVariableRulesCSS,
+	generateThemeVariablesCSS,
+	getThemeTokenTypes
+} from "vs/editor/standalone/common/themeVariables";
+import {
+	IMonarchTraceReportOptions,
+	MonarchTraceReport
+} from "vs/editor/standalone/browser/monarchTraceReport";
+import { IMonarchTrace } from "vs/editor/standalone/common/monarch/monarchTrace";
+import { IMonarchCoverageReport } from "vs/editor/standalone/common/monarch/monarchCoverage";
+import {
+	IMonarchTokenizeError,
+	onTokenizeError
+} from "vs/editor/standalone/common/monarch/monarchLexer";
+import {
+	DiffColorizer,
+	IDiffColorizerOptions,
+	IDiffTexts
+} from "vs/editor/standalone/browser/diffColorizer";
 
 export function colorizeElement(
 	domNode: HTMLElement,
@@ -20,23 +77,315 @@ export function colorizeElement(
 }
 
 /**
- * Colorize `text` using language `languageId`.
+ * Colorize every code block below `root` and mark it with `data-colorized`.
+ * With `observe: true` blocks added later are colorized too, until the result is disposed.
+ */
+export function colorizeAll(
+	root: Document | Element = document,
+	options?: IColorizeAllOptions
+): PageColorizer {
+	return new PageColorizer(
+		StaticServices.modeService.get(),
+		StaticServices.standaloneThemeService.get(),
+		root,
+		options
+	);
+}
+
+/**
+ * Colorize `text` using language `languageId`. Without a language it is detected
+ * from `options.filename` or the first line, e.g. `colorize(text, { filename: "Dockerfile" })`.
  */
 export function colorize(
 	text: string,
-	languageId: string,
 	options: IColorizerOptions
+): Promise<string>;
+export function colorize(
+	text: string,
+	languageId: string | null,
+	options?: IColorizerOptions
+): Promise<string>;
+export function colorize(
+	text: string,
+	languageIdOrOptions: string | null | IColorizerOptions,
+	options?: IColorizerOptions
 ): Promise<string> {
+	let languageId: string | null = null;
+	if (typeof languageIdOrOptions === "string") {
+		languageId = languageIdOrOptions;
+	} else if (languageIdOrOptions) {
+		options = languageIdOrOptions;
+	}
 	return Colorizer.colorize(
 		StaticServices.modeService.get(),
+		StaticServices.standaloneThemeService.get(),
+		text,
+		languageId,
+		options
+	);
+}
+
+/**
+ * Rank `candidates` (default: all registered languages) by how well their grammars tokenize `text`, best first.
+ * `colorize(text, "auto")` uses the top guess if its confidence is at least 0.5.
+ */
+export function guessLanguage(
+	text: string,
+	candidates?: string[]
+): Promise<ILanguageGuess[]> {
+	return Colorizer.guessLanguage(
+		StaticServices.modeService.get(),
+		text,
+		candidates
+	);
+}
+
+/**
+ * Colorize large inputs in chunks without blocking the event loop.
+ * Rejects with a cancellation error once `token` is cancelled.
+ */
+export function colorizeChunked(
+	text: string,
+	languageId: string | null,
+	options: IColorizerChunkedOptions,
+	token?: CancellationToken
+): Promise<string> {
+	return Colorizer.colorizeChunked(
+		StaticServices.modeService.get(),
+		StaticServices.standaloneThemeService.get(),
+		text,
+		languageId,
+		options,
+		token
+	);
+}
+
+/**
+ * Colorize a unified diff or an `{original, modified}` pair using language `languageId`.
+ */
+export function colorizeDiff(
+	diff: string | IDiffTexts,
+	languageId: string,
+	options?: IDiffColorizerOptions
+): Promise<string> {
+	return DiffColorizer.colorizeDiff(
+		StaticServices.modeService.get(),
+		diff,
+		languageId,
+		options
+	);
+}
+
+/**
+ * Colorize `text` with ANSI escape sequences for terminals,
+ * e.g. `colorizeAnsi(code, "typescript", { colorDepth: process.stdout.getColorDepth() })`.
+ */
+export function colorizeAnsi(
+	text: string,
+	languageId: string,
+	options?: IAnsiColorizerOptions
+): Promise<string> {
+	return AnsiColorizer.colorize(
+		StaticServices.modeService.get(),
+		StaticServices.standaloneThemeService.get(),
 		text,
 		languageId,
 		options
 	);
 }
+
+/**
+ * Tokenize `text` using language `languageId`.
+ * Every token carries its colors resolved against the current theme.
+ * `loadTimeout` is as in `IColorizerOptions`.
+ */
+export function tokenize(
+	text: string,
+	languageId: string,
+	loadTimeout?: number
+): Promise<IColorizerToken[][]> {
+	return Colorizer.tokenize(
+		StaticServices.modeService.get(),
+		StaticServices.standaloneThemeService.get(),
+		text,
+		languageId,
+		undefined,
+		loadTimeout
+	);
+}
+
+/**
+ * Record what the Monarch grammar of `languageId` does on every line of `text`:
+ * the rules tried and matched, the tokens and the stack changes, see `IMonarchTrace`.
+ */
+export function trace(text: string, languageId: string): Promise<IMonarchTrace> {
+	return Colorizer.trace(StaticServices.modeService.get(), text, languageId);
+}
+
+/**
+ * Render the trace of `text` as HTML, every colorized line next to the steps of the tokenizer.
+ * Styled by the `.mttr` rules of the theme CSS.
+ */
+export function traceReport(
+	text: string,
+	languageId: string,
+	options?: IMonarchTraceReportOptions
+): Promise<string> {
+	const modeService = StaticServices.modeService.get();
+	return Colorizer.trace(modeService, text, languageId).then(result =>
+		MonarchTraceReport.render(modeService, result, options)
+	);
+}
+
+/**
+ * Tokenize a corpus of sample texts using language `languageId` and report how often every state,
+ * rule and `cases` branch of its Monarch grammar was used, including the ones never used.
+ */
+export function coverage(
+	corpus: string | string[],
+	languageId: string
+): Promise<IMonarchCoverageReport> {
+	return Colorizer.coverage(
+		StaticServices.modeService.get(),
+		typeof corpus === "string" ? [corpus] : corpus,
+		languageId
+	);
+}
+
+/**
+ * Listen for grammars getting stuck on a rule that matches the empty string without changing the state.
+ * Instead of hanging, the rest of the line gets the default token and `listener` is told the state and rule.
+ */
+export function onTokenizationError(
+	listener: (e: IMonarchTokenizeError) => void
+): IDisposable {
+	return onTokenizeError(listener);
+}
+
+/**
+ * Dispatch `colorize`/`tokenize` to a worker running `dist/worker.js`,
+ * e.g. `createWorkerClient(new Worker("dist/worker.js"))`.
+ */
+export function createWorkerClient(worker: Worker): WorkerClient {
+	return new WorkerClient(
+		worker,
+		StaticServices.standaloneThemeService.get()
+	);
+}
+
+/**
+ * Register a language and its Monarch grammar, e.g.
+ * `registerLanguage({ id: "mydsl", extensions: [".dsl"], monarch: { tokenizer: { root: [[/\w+/, "keyword"]] } } })`.
+ * It can then be used like the bundled languages.
+ */
+export function registerLanguage(language: ILanguageDefinition): IDisposable {
+	return standaloneLanguages.registerLanguage(language);
+}
+
+/**
+ * Get the information of all registered languages.
+ */
+export function getLanguages(): ILanguageExtensionPoint[] {
+	return standaloneLanguages.getLanguages();
+}
+
 export function defineTheme(themeName, themeData) {
 	StaticServices.standaloneThemeService.get().defineTheme(themeName, themeData);
 }
+
+/**
+ * Define theme `themeName` from a VS Code color theme (`colors` and `tokenColors`) or a TextMate theme.
+ * The TextMate scopes are mapped onto the Monarch token types by `options.scopeMap` and `DEFAULT_SCOPE_MAP`,
+ * the returned conversion lists the scopes that could not be mapped.
+ */
+export function defineTextMateTheme(
+	themeName: string,
+	theme: ITextMateTheme,
+	options?: ITextMateThemeOptions
+): ITextMateThemeConversion {
+	const conversion = convertTextMateTheme(theme, options);
+	defineTheme(themeName, conversion.themeData);
+	return conversion;
+}
+
+/**
+ * Get the data of theme `themeName` with the rules and colors of all the themes it is based on merged in,
+ * `base` being the builtin theme at the end of the chain.
+ */
+export function getResolvedTheme(themeName: string): IStandaloneThemeData {
+	return StaticServices.standaloneThemeService
+		.get()
+		.getThemeByName(themeName)
+		.getResolvedThemeData();
+}
+
 export function setTheme(themeName) {
 	StaticServices.standaloneThemeService.get().setTheme(themeName);
 }
+
+/**
+ * Get the CSS of the current theme, e.g. to inline it into pre-rendered pages.
+ */
+export function getThemeCSS(): string {
+	return StaticServices.standaloneThemeService.get().getThemeCSS();
+}
+
+/**
+ * Add the CSS of theme `themeName` scoped under its class name to the theme CSS, e.g. `.vs-dark .mtk5`,
+ * without changing the current theme. Output colorized with `{ theme: themeName }` is then colored
+ * inside elements with the returned class name, next to blocks of other themes.
+ * `colorizeElement` does this itself.
+ */
+export function addScopedTheme(themeName: string): string {
+	return StaticServices.standaloneThemeService.get().addScopedTheme(themeName);
+}
+
+/**
+ * Get the CSS coloring the `"semanticClassNames"` output like theme `themeName` (default: the current theme).
+ * With `scope`, e.g. `".dark"`, the rules only apply inside elements matching it.
+ */
+export function getSemanticThemeCSS(themeName?: string, scope?: string): string {
+	const themeService = StaticServices.standaloneThemeService.get();
+	const theme = themeName
+		? themeService.getThemeByName(themeName)
+		: themeService.getTheme();
+	return generateSemanticCSS(theme.tokenTheme, scope);
+}
+
+/**
+ * Get theme `themeName` (default: the current theme) as CSS custom properties, e.g. `--monarch-keyword`
+ * and `--monarch-editor-background`, declared for `options.selector` (default: `:root`), optionally
+ * only if the user prefers `options.colorScheme`. Together with `getThemeVariableRulesCSS` switching themes
+ * is just CSS.
+ */
+export function getThemeVariablesCSS(
+	themeName?: string,
+	options?: IThemeVariablesOptions
+): string {
+	const themeService = StaticServices.standaloneThemeService.get();
+	const theme = themeName
+		? themeService.getThemeByName(themeName)
+		: themeService.getTheme();
+	return generateThemeVariablesCSS(
+		theme,
+		_getThemeTokenTypes(options && options.themes),
+		options
+	);
+}
+
+/**
+ * Get the CSS coloring the `"semanticClassNames"` output with the variables of `getThemeVariablesCSS`,
+ * for the token types of `themeNames` (default: the builtin themes).
+ */
+export function getThemeVariableRulesCSS(themeNames?: string[]): string {
+	return generateThemeVariableRulesCSS(_getThemeTokenTypes(themeNames));
+}
+
+function _getThemeTokenTypes(themeNames?: string[]): string[][] {
+	const themeService = StaticServices.standaloneThemeService.get();
+	return getThemeTokenTypes(
+		(themeNames || ["vs", "vs-dark", "hc-black"]).map(
+			themeName => themeService.getThemeByName(themeName).tokenTheme
+		)
+	);
+}
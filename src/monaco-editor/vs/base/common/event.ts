@@ -514,7 +514,8 @@ export class Emitter<T> {
 					this._options.onFirstListenerAdd(this);
 				}
 
-				const remove = this._listeners.push(!thisArgs ? listener : [listener, thisArgs]);
+				const entry: Listener<T> = !thisArgs ? listener : [listener, thisArgs];
+				this._listeners.push(entry);
 
 				if (firstListener && this._options && this._options.onFirstListenerDidAdd) {
 					this._options.onFirstListenerDidAdd(this);
@@ -538,7 +539,11 @@ export class Emitter<T> {
 						}
 						result.dispose = Emitter._noop;
 						if (!this._disposed) {
-							this._listeners.splice(remove - 1, 1);
+							// look the entry up again, other listeners might have been removed in the meantime
+							const index = this._listeners.indexOf(entry);
+							if (index >= 0) {
+								this._listeners.splice(index, 1);
+							}
 							if (this._options && this._options.onLastListenerRemove) {
 								const hasListeners = (this._listeners && this._listeners.length !== 0);
 								if (!hasListeners) {
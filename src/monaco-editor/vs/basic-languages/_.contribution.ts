@@ -4,8 +4,10 @@
  *--------------------------------------------------------------------------------------------*/
 'use strict';
 
+import { globals } from 'vs/base/common/platform';
+
 // Allow for running under nodejs/requirejs in tests
-const _monaco: typeof monaco = (typeof monaco === 'undefined' ? (<any>self).monaco : monaco);
+const _monaco: typeof monaco = (typeof monaco === 'undefined' ? globals.monaco : monaco);
 
 interface ILang extends monaco.languages.ILanguageExtensionPoint {
 	loader: () => Promise<ILangImpl>;
@@ -20,9 +22,10 @@ let languageDefinitions: { [languageId: string]: ILang } = {};
 
 function _loadLanguage(languageId: string): Promise<void> {
 	const loader = languageDefinitions[languageId].loader;
-	return loader().then((mod) => {
-		_monaco.languages.setMonarchTokensProvider(languageId, mod.language);
-	});
+	// registered as a promise right away, so colorizing waits for it and fails with it
+	const language = loader().then((mod) => mod.language);
+	_monaco.languages.setMonarchTokensProvider(languageId, language);
+	return language.then(() => undefined);
 }
 
 let languagePromises: { [languageId: string]: Promise<void> } = {};
@@ -40,6 +43,7 @@ export function registerLanguage(def: ILang): void {
 	languageDefinitions[languageId] = def;
 	_monaco.languages.register(def);
 	_monaco.languages.onLanguage(languageId, () => {
-		loadLanguage(languageId);
+		// failures reject the colorize calls waiting for the language
+		loadLanguage(languageId).then(undefined, () => { });
 	});
 }
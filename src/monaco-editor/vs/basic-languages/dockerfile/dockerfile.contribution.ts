@@ -9,7 +9,9 @@ import { registerLanguage } from '../_.contribution';
 registerLanguage({
 	id: 'dockerfile',
 	extensions: ['.dockerfile'],
-	filenames: ['Dockerfile'],
+	filenames: ['Dockerfile', 'Containerfile'],
+	filenamePatterns: ['Dockerfile.*', 'Containerfile.*'],
+	firstLine: '^#\\s*(syntax|escape)\\s*=',
 	aliases: ['Dockerfile'],
 	loader: () => import(/* webpackChunkName: "lang/dockerfile" */'./dockerfile')
 });
@@ -9,6 +9,8 @@ import { registerLanguage } from '../_.contribution';
 registerLanguage({
 	id: 'perl',
 	extensions: ['.pl'],
+	filenames: ['cpanfile'],
 	aliases: ['Perl', 'pl'],
+	firstLine: '^#!.*\\bperl[0-9.]*\\b',
 	loader: () => import(/* webpackChunkName: "lang/perl" */'./perl'),
 });
@@ -10,6 +10,7 @@ registerLanguage({
 	id: 'php',
 	extensions: ['.php', '.php4', '.php5', '.phtml', '.ctp'],
 	aliases: ['PHP', 'php'],
+	firstLine: '^(#!.*\\bphp[0-9.]*\\b|<\\?php\\b)',
 	mimetypes: ['application/x-php'],
 	loader: () => import(/* webpackChunkName: "lang/php" */'./php')
 });
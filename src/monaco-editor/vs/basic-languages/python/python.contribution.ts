@@ -9,6 +9,7 @@ import { registerLanguage } from '../_.contribution';
 registerLanguage({
 	id: 'python',
 	extensions: ['.py', '.rpy', '.pyw', '.cpy', '.gyp', '.gypi'],
+	filenames: ['SConstruct', 'SConscript'],
 	aliases: ['Python', 'py'],
 	firstLine: '^#!/.*\\bpython[0-9.-]*\\b',
 	loader: () => import(/* webpackChunkName: "lang/python" */'./python')
@@ -9,7 +9,8 @@ import { registerLanguage } from '../_.contribution';
 registerLanguage({
 	id: 'ruby',
 	extensions: ['.rb', '.rbx', '.rjs', '.gemspec', '.pp'],
-	filenames: ['rakefile'],
+	filenames: ['rakefile', 'Gemfile', 'Guardfile', 'Podfile', 'Vagrantfile', 'Capfile', 'Brewfile'],
 	aliases: ['Ruby', 'rb'],
+	firstLine: '^#!.*\\bruby[0-9.]*\\b',
 	loader: () => import(/* webpackChunkName: "lang/ruby" */'./ruby')
 });
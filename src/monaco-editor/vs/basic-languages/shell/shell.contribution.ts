@@ -9,6 +9,8 @@ import { registerLanguage } from '../_.contribution';
 registerLanguage({
 	id: 'shell',
 	extensions: ['.sh', '.bash'],
+	filenames: ['.bashrc', '.bash_profile', '.bash_logout', '.profile', '.zshrc', '.zprofile', 'PKGBUILD'],
 	aliases: ['Shell', 'sh'],
+	firstLine: '^#!.*\\b(ba|z|k|da)?sh\\b',
 	loader: () => import(/* webpackChunkName: "lang/shell" */'./shell'),
 });
@@ -48,16 +48,22 @@ export class TokenizationRegistryImpl implements ITokenizationRegistry {
 		let registration: IDisposable | null = null;
 		let isDisposed: boolean = false;
 
-		this._promises[language] = supportPromise.then(support => {
+		const promise = supportPromise.then(support => {
 			delete this._promises[language];
 			if (isDisposed || !support) {
 				return;
 			}
 			registration = this.register(language, support);
 		});
+		// a failed promise is kept, so everyone waiting in `getPromise` learns about the failure
+		promise.then(undefined, () => { });
+		this._promises[language] = promise;
 
 		return toDisposable(() => {
 			isDisposed = true;
+			if (this._promises[language] === promise) {
+				delete this._promises[language];
+			}
 			if (registration) {
 				registration.dispose();
 			}
@@ -291,6 +291,14 @@ export class LanguagesRegistry extends Disposable {
 		);
 	}
 
+	public getModeIdsFromFilepathOrFirstLine(filepath: string | null, firstLine?: string): string[] {
+		if (!filepath && !firstLine) {
+			return [];
+		}
+		let mimeTypes = mime.guessMimeTypes(filepath, firstLine);
+		return this.extractModeIds(mimeTypes.join(','));
+	}
+
 	public getLanguageIdentifier(_modeId: string | LanguageId): LanguageIdentifier | null {
 		if (_modeId === NULL_MODE_ID || _modeId === LanguageId.Null) {
 			return NULL_LANGUAGE_IDENTIFIER;
@@ -41,12 +41,16 @@ export interface IModeService {
 	getMimeForMode(modeId: string): string | null;
 	getLanguageName(modeId: string): string | null;
 	getModeIdForLanguageName(alias: string): string | null;
-	getModeIdByFilepathOrFirstLine(filepath: string, firstLine?: string): string | null;
+	getModeIdByFilepathOrFirstLine(filepath: string | null, firstLine?: string): string | null;
 	getModeId(commaSeparatedMimetypesOrCommaSeparatedIds: string): string | null;
 	getLanguageIdentifier(modeId: string | LanguageId): LanguageIdentifier | null;
 	getConfigurationFiles(modeId: string): URI[];
 
 	// --- instantiation
+	/**
+	 * Whether the mode has been created, `onDidCreateMode` fired for it then already.
+	 */
+	isInstantiatedMode(modeId: string): boolean;
 	create(commaSeparatedMimetypesOrCommaSeparatedIds: string | undefined): ILanguageSelection;
 	createByLanguageName(languageName: string): ILanguageSelection;
 	createByFilepathOrFirstLine(filepath: string | null, firstLine?: string): ILanguageSelection;
@@ -95,7 +95,12 @@ export class ModeServiceImpl implements IModeService {
 	}
 
 	public getModeIdByFilepathOrFirstLine(filepath: string | null, firstLine?: string): string | null {
-		//Todo: 不要!インターフェース変える!!!!!!!!!!!!!!!!!!!!!!!!!!!!
+		const modeIds = this._registry.getModeIdsFromFilepathOrFirstLine(filepath, firstLine);
+
+		if (modeIds.length > 0) {
+			return modeIds[0];
+		}
+
 		return null;
 	}
 
@@ -119,6 +124,10 @@ export class ModeServiceImpl implements IModeService {
 
 	// --- instantiation
 
+	public isInstantiatedMode(modeId: string): boolean {
+		return this._instantiatedModes.hasOwnProperty(modeId);
+	}
+
 	public create(commaSeparatedMimetypesOrCommaSeparatedIds: string | undefined): ILanguageSelection {
 		return new LanguageSelection(this.onLanguagesMaybeChanged, () => {
 			const modeId = this.getModeId(commaSeparatedMimetypesOrCommaSeparatedIds);
@@ -3,9 +3,10 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import { globals } from "vs/base/common/platform";
 import { createMonacoLanguagesAPI } from "vs/editor/standalone/browser/standaloneLanguages";
 
-const global: any = self;
+const global: any = globals;
 
 const api: { languages?: ReturnType<typeof createMonacoLanguagesAPI> } = {};
 api.languages = createMonacoLanguagesAPI();
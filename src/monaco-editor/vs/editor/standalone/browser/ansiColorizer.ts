@@ -0,0 +1,173 @@
+import { Color, RGBA } from "vs/base/common/color";
+import * as strings from "vs/base/common/strings";
+import { ColorId } from "vs/editor/common/modes";
+import { IModeService } from "vs/editor/common/services/modeService";
+import { Colorizer } from "vs/editor/standalone/browser/colorizer";
+import { IStandaloneThemeService } from "vs/editor/standalone/common/standaloneThemeService";
+
+export interface IAnsiColorizerOptions {
+	/**
+	 * The theme to take the colors from, defaults to the current theme.
+	 */
+	theme?: string;
+	/**
+	 * Bits per color as reported by node's `tty.WriteStream.getColorDepth()`:
+	 * `1` (no colors), `4` (16 colors), `8` (256 colors) or `24` (true color, default).
+	 */
+	colorDepth?: 1 | 4 | 8 | 24;
+	/**
+	 * See `IColorizerOptions.loadTimeout`.
+	 */
+	loadTimeout?: number;
+}
+
+const ESC = "\x1b[";
+const RESET = ESC + "0m";
+
+/**
+ * The xterm defaults of the 16 basic colors.
+ */
+const ANSI_16_COLORS = [
+	new RGBA(0, 0, 0),
+	new RGBA(205, 0, 0),
+	new RGBA(0, 205, 0),
+	new RGBA(205, 205, 0),
+	new RGBA(0, 0, 238),
+	new RGBA(205, 0, 205),
+	new RGBA(0, 205, 205),
+	new RGBA(229, 229, 229),
+	new RGBA(127, 127, 127),
+	new RGBA(255, 0, 0),
+	new RGBA(0, 255, 0),
+	new RGBA(255, 255, 0),
+	new RGBA(92, 92, 255),
+	new RGBA(255, 0, 255),
+	new RGBA(0, 255, 255),
+	new RGBA(255, 255, 255)
+];
+
+export class AnsiColorizer {
+	/**
+	 * Colorize `text` with ANSI escape sequences, e.g. for terminal output.
+	 * Tokens in the theme's default foreground keep the terminal's own color.
+	 */
+	public static colorize(
+		modeService: IModeService,
+		themeService: IStandaloneThemeService,
+		text: string,
+		mimeType: string,
+		options: IAnsiColorizerOptions | null | undefined
+	): Promise<string> {
+		options = options || {};
+		const colorDepth = options.colorDepth || 24;
+		const theme = options.theme
+			? themeService.getThemeByName(options.theme)
+			: themeService.getTheme();
+		const defaultForeground = String(
+			theme.tokenTheme.getColorMap()[ColorId.DefaultForeground]
+		);
+
+		if (strings.startsWithUTF8BOM(text)) {
+			text = text.substr(1);
+		}
+		const lines = text.split(/\r\n|\r|\n/);
+
+		return Colorizer.tokenize(
+			modeService,
+			themeService,
+			text,
+			mimeType,
+			theme.themeName,
+			options.loadTimeout
+		).then(tokenizedLines => {
+			let result: string[] = [];
+			for (let i = 0, length = lines.length; i < length; i++) {
+				const line = lines[i];
+				let ansi = "";
+				let currentStyle = "";
+				for (const token of tokenizedLines[i]) {
+					let codes: string[] = [];
+					if (colorDepth > 1 && token.foreground !== defaultForeground) {
+						codes.push(
+							_foregroundCode(Color.fromHex(token.foreground).rgba, colorDepth)
+						);
+					}
+					if (token.fontStyle.indexOf("bold") >= 0) {
+						codes.push("1");
+					}
+					if (token.fontStyle.indexOf("italic") >= 0) {
+						codes.push("3");
+					}
+					if (token.fontStyle.indexOf("underline") >= 0) {
+						codes.push("4");
+					}
+
+					const style = codes.join(";");
+					if (style !== currentStyle) {
+						if (currentStyle) {
+							ansi += RESET;
+						}
+						if (style) {
+							ansi += ESC + style + "m";
+						}
+						currentStyle = style;
+					}
+					ansi += line.substring(token.startIndex, token.endIndex);
+				}
+				if (currentStyle) {
+					ansi += RESET;
+				}
+				result.push(ansi);
+			}
+			return result.join("\n");
+		});
+	}
+}
+
+function _foregroundCode(rgba: RGBA, colorDepth: number): string {
+	if (colorDepth >= 24) {
+		return `38;2;${rgba.r};${rgba.g};${rgba.b}`;
+	}
+	if (colorDepth >= 8) {
+		return `38;5;${_to256Color(rgba)}`;
+	}
+	const index = _to16Color(rgba);
+	return String(index < 8 ? 30 + index : 90 + index - 8);
+}
+
+function _to256Color(rgba: RGBA): number {
+	if (rgba.r === rgba.g && rgba.g === rgba.b) {
+		// grayscale ramp 232-255, black and white are part of the cube
+		if (rgba.r < 8) {
+			return 16;
+		}
+		if (rgba.r > 248) {
+			return 231;
+		}
+		return Math.round(((rgba.r - 8) / 247) * 24) + 232;
+	}
+	// 6x6x6 color cube 16-231
+	return (
+		16 +
+		36 * Math.round((rgba.r / 255) * 5) +
+		6 * Math.round((rgba.g / 255) * 5) +
+		Math.round((rgba.b / 255) * 5)
+	);
+}
+
+function _to16Color(rgba: RGBA): number {
+	let best = 0;
+	let bestDistance = Number.MAX_VALUE;
+	for (let i = 0; i < ANSI_16_COLORS.length; i++) {
+		const color = ANSI_16_COLORS[i];
+		const distance =
+			(color.r - rgba.r) * (color.r - rgba.r) +
+			(color.g - rgba.g) * (color.g - rgba.g) +
+			(color.b - rgba.b) * (color.b - rgba.b);
+		if (distance < bestDistance) {
+			best = i;
+			bestDistance = distance;
+		}
+	}
+	return best;
+}
@@ -3,37 +3,172 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { TimeoutTimer } from "vs/base/common/async";
+import { TimeoutTimer, timeout } from "vs/base/common/async";
+import { CancellationToken } from "vs/base/common/cancellation";
+import { CharCode } from "vs/base/common/charCode";
+import { canceled, illegalArgument } from "vs/base/common/errors";
 import { IDisposable } from "vs/base/common/lifecycle";
 import * as strings from "vs/base/common/strings";
 import { IViewLineTokens, LineTokens } from "vs/editor/common/core/lineTokens";
+import { Range } from "vs/editor/common/core/range";
+import { Token } from "vs/editor/common/core/token";
 import {
 	ColorId,
 	FontStyle,
 	ITokenizationSupport,
+	LanguageId,
 	MetadataConsts,
+	TokenMetadata,
 	TokenizationRegistry
 } from "vs/editor/common/modes";
+import { PLAINTEXT_MODE_ID } from "vs/editor/common/modes/modesRegistry";
+import { TokenTheme } from "vs/editor/common/modes/supports/tokenization";
 import { IModeService } from "vs/editor/common/services/modeService";
+import {
+	editorLineNumbers,
+	editorRangeHighlight
+} from "vs/editor/common/view/editorColorRegistry";
+import { LineDecoration } from "vs/editor/common/viewLayout/lineDecorations";
 import {
 	RenderLineInput,
 	renderViewLine2 as renderViewLine
 } from "vs/editor/common/viewLayout/viewLineRenderer";
-import { ViewLineRenderingData } from "vs/editor/common/viewModel/viewModel";
-import { IStandaloneThemeService } from "vs/editor/standalone/common/standaloneThemeService";
+import {
+	InlineDecoration,
+	InlineDecorationType,
+	ViewLineRenderingData
+} from "vs/editor/common/viewModel/viewModel";
+import {
+	IStandaloneTheme,
+	IStandaloneThemeService
+} from "vs/editor/standalone/common/standaloneThemeService";
+import {
+	ILanguageGuess,
+	ILanguageGuessCandidate,
+	getGuessSample,
+	guessLanguages
+} from "vs/editor/standalone/common/languageGuess";
+import { IMonarchCoverageReport } from "vs/editor/standalone/common/monarch/monarchCoverage";
 import { MonarchTokenizer } from "vs/editor/standalone/common/monarch/monarchLexer";
+import { getSemanticClassNames } from "vs/editor/standalone/common/semanticClassNames";
+import {
+	IMonarchLineTrace,
+	IMonarchTrace
+} from "vs/editor/standalone/common/monarch/monarchTrace";
+import {
+	editorBackground,
+	editorForeground
+} from "vs/platform/theme/common/colorRegistry";
+import { registerThemingParticipant } from "vs/platform/theme/common/themeService";
 
 type ITextModel = any;
 
 export interface IColorizerOptions {
 	tabSize?: number;
+	/**
+	 * The theme to resolve the colors against (default: the current theme).
+	 * `colorizeElement` defaults to `vs` and adds its CSS scoped under its name, which it appends to
+	 * the class of the element, so elements of different themes can be shown side by side.
+	 */
+	theme?: string;
+	/**
+	 * `"classNames"` (default) emits `mtkN` classes that need the theme CSS,
+	 * `"inlineStyles"` writes the colors into `style` attributes instead.
+	 * `"semanticClassNames"` emits classes named after the token types that the CSS of any theme
+	 * colors, e.g. `mt mt-string mt-string-escape mt-string-escape-js mtl-js`, see `generateSemanticCSS`.
+	 */
+	output?: "classNames" | "inlineStyles" | "semanticClassNames";
+	/**
+	 * Render a line number gutter in front of every line.
+	 */
+	lineNumbers?: boolean | IColorizerLineNumbersOptions;
+	/**
+	 * Lines to highlight with the `.mthl` class, e.g. `[3, "7-9"]`.
+	 * Only applies to the `"classNames"` output, the other outputs reject it.
+	 */
+	highlightLines?: (number | string)[];
+	/**
+	 * Spans to render with an additional class name, they must lie within the text.
+	 * Only applies to the `"classNames"` output, the other outputs reject it.
+	 */
+	ranges?: IColorizerRange[];
+	/**
+	 * Detect the language from the file name, e.g. `"Dockerfile"` or `"src/main.rs"`,
+	 * when no language is passed. The shebang or `firstLine` of the text is tried last.
+	 */
+	filename?: string;
+	/**
+	 * The languages the `"auto"` language picks from, defaults to all registered languages.
+	 */
+	candidates?: string[];
+	/**
+	 * How many milliseconds to wait for a language that is still loading or not registered yet,
+	 * defaults to `50000`. The text is left uncolored after that.
+	 */
+	loadTimeout?: number;
+}
+
+/**
+ * A span of the colorized text, lines and columns are 1-based and `endColumn` is exclusive.
+ */
+export interface IColorizerRange {
+	startLine: number;
+	startColumn: number;
+	endLine: number;
+	endColumn: number;
+	className: string;
+}
+
+export interface IColorizerLineNumbersOptions {
+	/**
+	 * The number of the first line, defaults to `1`.
+	 */
+	start?: number;
+	/**
+	 * The gutter width in characters, defaults to the digits of the last line number.
+	 */
+	width?: number;
+	/**
+	 * Turn every number into a permalink, e.g. `"L"` renders `<a id="L42" href="#L42">`.
+	 */
+	anchorPrefix?: string;
+}
+
+export interface IColorizerChunkedOptions extends IColorizerOptions {
+	/**
+	 * Yield after this many lines, defaults to `1000`.
+	 */
+	chunkLines?: number;
+	/**
+	 * Yield after this many milliseconds, defaults to `10`. `0` yields after every line.
+	 */
+	chunkTime?: number;
+	/**
+	 * Called after every chunk. Once an embedded language the text uses has loaded,
+	 * the text is rendered again and `renderedLines` starts over from the first chunk.
+	 */
+	onProgress?: (renderedLines: number, lineCount: number) => void;
 }
 
 export interface IColorizerElementOptions extends IColorizerOptions {
-	theme?: string;
 	mimeType?: string;
 }
 
+export interface IColorizerToken {
+	startIndex: number;
+	endIndex: number;
+	type: string;
+	language: string;
+	/**
+	 * The resolved foreground color, e.g. `#0000ff`.
+	 */
+	foreground: string;
+	/**
+	 * A space separated list of `italic`, `bold` and `underline`, or `""`.
+	 */
+	fontStyle: string;
+}
+
 export class Colorizer {
 	public static colorizeElement(
 		themeService: IStandaloneThemeService,
@@ -43,98 +178,308 @@ export class Colorizer {
 	): Promise<void> {
 		options = options || {};
 		let theme = options.theme || "vs";
+		let text = domNode.firstChild ? domNode.firstChild.nodeValue : "";
 		let mimeType =
 			options.mimeType ||
 			domNode.getAttribute("lang") ||
 			domNode.getAttribute("data-lang");
-		if (!mimeType) {
+		let filename = options.filename || domNode.getAttribute("data-filename");
+		if (
+			!mimeType &&
+			!modeService.getModeIdByFilepathOrFirstLine(
+				filename,
+				_splitLines(text || "")[0]
+			)
+		) {
 			console.error("Mode not detected");
 			return Promise.resolve();
 		}
 
-		themeService.setTheme(theme);
+		theme = themeService.addScopedTheme(theme);
 
-		let text = domNode.firstChild ? domNode.firstChild.nodeValue : "";
 		domNode.className += " " + theme;
 		let render = (str: string) => {
 			domNode.innerHTML = str;
 		};
-		return this.colorize(modeService, text || "", mimeType, options).then(
-			render,
-			err => console.error(err)
-		);
+		let elementOptions: IColorizerOptions = { ...options, theme };
+		if (filename) {
+			elementOptions.filename = filename;
+		}
+		return this.colorize(
+			modeService,
+			themeService,
+			text || "",
+			mimeType,
+			elementOptions
+		).then(render, err => console.error(err));
 	}
 
+	/**
+	 * Colorize `text` as `mimeType`, a mime type or language id. Without one,
+	 * or if it is unknown, the language is detected from `options.filename` and the first line.
+	 * `"auto"` additionally guesses the language from the text, see `guessLanguage`.
+	 */
 	public static colorize(
 		modeService: IModeService,
+		themeService: IStandaloneThemeService,
 		text: string,
-		mimeType: string,
+		mimeType: string | null | undefined,
 		options: IColorizerOptions | null | undefined
 	): Promise<string> {
-		let tabSize = 4;
-		if (options && typeof options.tabSize === "number") {
-			tabSize = options.tabSize;
-		}
-
-		if (strings.startsWithUTF8BOM(text)) {
-			text = text.substr(1);
-		}
-		let lines = text.split(/\r\n|\r|\n/);
-		let language = modeService.getModeId(mimeType);
-		if (!language) {
-			return Promise.resolve(_fakeColorize(lines, tabSize));
-		}
+		let lines = _splitLines(text);
+		return _resolveModeId(modeService, mimeType, options, lines)
+			.then(modeId =>
+				_getTokenizationSupportForMimeType(
+					modeService,
+					modeId,
+					options ? options.loadTimeout : undefined
+				)
+			)
+			.then(tokenizationSupport =>
+				// a late embedded language renders the text again, with a fresh tokenizer state
+				_whenLoaded(tokenizationSupport, () =>
+					_renderDocument(
+						lines,
+						_createDocumentRenderer(
+							themeService,
+							lines,
+							options,
+							tokenizationSupport
+						)
+					)
+				)
+			);
+	}
 
-		// Send out the event to create the mode
-		modeService.triggerMode(language);
+	/**
+	 * Like `colorize`, but renders `chunkLines` lines or for `chunkTime` milliseconds at a time
+	 * and yields to the event loop in between. Rejects with a cancellation error once `token`
+	 * is cancelled. As in `colorize`, an embedded language loading late renders the text again.
+	 */
+	public static colorizeChunked(
+		modeService: IModeService,
+		themeService: IStandaloneThemeService,
+		text: string,
+		mimeType: string | null | undefined,
+		options: IColorizerChunkedOptions | null | undefined,
+		token: CancellationToken = CancellationToken.None
+	): Promise<string> {
+		let lines = _splitLines(text);
+		// grammars can take a while to load, don't wait for them once cancelled
+		return _raceCancellation(
+			_resolveModeId(modeService, mimeType, options, lines).then(modeId =>
+				_getTokenizationSupportForMimeType(
+					modeService,
+					modeId,
+					options ? options.loadTimeout : undefined
+				)
+			),
+			token
+		).then(tokenizationSupport =>
+			_raceCancellation(
+				_whenLoaded(tokenizationSupport, () =>
+					_renderDocumentChunked(
+						lines,
+						_createDocumentRenderer(
+							themeService,
+							lines,
+							options,
+							tokenizationSupport
+						),
+						options || {},
+						token
+					)
+				),
+				token
+			)
+		);
+	}
 
-		let tokenizationSupport = TokenizationRegistry.get(language);
-		if (tokenizationSupport) {
-			return _colorize(lines, tabSize, tokenizationSupport);
+	/**
+	 * Rank the registered languages (or `candidates`) by how well their tokenizers understand
+	 * the start of `text`, best first. A language matching the shebang or first line scores `1`.
+	 * Languages that fail to load are left out.
+	 */
+	public static guessLanguage(
+		modeService: IModeService,
+		text: string,
+		candidates?: string[],
+		loadTimeout?: number
+	): Promise<ILanguageGuess[]> {
+		const lines = getGuessSample(_splitLines(text));
+		let languageIds: string[] = [];
+		for (const candidate of candidates ||
+			modeService.getRegisteredModes()) {
+			const languageId =
+				modeService.getModeId(candidate) ||
+				modeService.getModeIdForLanguageName(candidate.toLowerCase());
+			if (
+				languageId &&
+				languageId !== PLAINTEXT_MODE_ID &&
+				languageIds.indexOf(languageId) < 0
+			) {
+				languageIds.push(languageId);
+			}
 		}
+		const firstLineModeId = modeService.getModeIdByFilepathOrFirstLine(
+			null,
+			lines[0]
+		);
 
-		let tokenizationSupportPromise = TokenizationRegistry.getPromise(language);
-		if (tokenizationSupportPromise) {
-			// A tokenizer will be registered soon
-			return new Promise<string>((resolve, reject) => {
-				tokenizationSupportPromise!.then(tokenizationSupport => {
-					_colorize(lines, tabSize, tokenizationSupport).then(resolve, reject);
-				}, reject);
+		return Promise.all(
+			languageIds.map(languageId =>
+				_getTokenizationSupport(modeService, languageId, loadTimeout).then(
+					undefined,
+					() => null
+				)
+			)
+		).then(tokenizationSupports => {
+			let candidates: ILanguageGuessCandidate[] = [];
+			languageIds.forEach((languageId, index) => {
+				const tokenizationSupport = tokenizationSupports[index];
+				if (tokenizationSupport) {
+					candidates.push({ languageId, tokenizationSupport });
+				}
 			});
-		}
+			const guesses = guessLanguages(lines, candidates);
+			const firstLineGuess = guesses.filter(
+				guess => guess.languageId === firstLineModeId
+			)[0];
+			if (firstLineGuess) {
+				guesses.splice(guesses.indexOf(firstLineGuess), 1);
+				guesses.unshift({ languageId: firstLineModeId!, confidence: 1 });
+			}
+			return guesses;
+		});
+	}
 
-		return new Promise<string>((resolve, reject) => {
-			let listener: IDisposable | null = null;
-			let timeout: TimeoutTimer | null = null;
+	/**
+	 * Tokenize `text` and resolve every token against the theme `themeName`
+	 * (default: the current theme). Resolves with one array of tokens per line.
+	 */
+	public static tokenize(
+		modeService: IModeService,
+		themeService: IStandaloneThemeService,
+		text: string,
+		mimeType: string,
+		themeName?: string,
+		loadTimeout?: number
+	): Promise<IColorizerToken[][]> {
+		let lines = _splitLines(text);
+		let language = modeService.getModeId(mimeType);
+		const tokenTheme = (themeName
+			? themeService.getThemeByName(themeName)
+			: themeService.getTheme()
+		).tokenTheme;
+		if (!language) {
+			return Promise.resolve(_fakeTokenize(lines, "", tokenTheme));
+		}
 
-			const execute = () => {
-				if (listener) {
-					listener.dispose();
-					listener = null;
+		return _getTokenizationSupport(modeService, language, loadTimeout).then(
+			tokenizationSupport => {
+				if (!tokenizationSupport) {
+					return _fakeTokenize(lines, language!, tokenTheme);
 				}
-				if (timeout) {
-					timeout.dispose();
-					timeout = null;
-				}
-				const tokenizationSupport = TokenizationRegistry.get(language!);
-				if (tokenizationSupport) {
-					_colorize(lines, tabSize, tokenizationSupport).then(resolve, reject);
-					return;
-				}
-				resolve(_fakeColorize(lines, tabSize));
-			};
+				return _tokenize(lines, tokenTheme, tokenizationSupport);
+			}
+		);
+	}
 
-			// wait 50000ms for mode to load, then give up
-			timeout = new TimeoutTimer();
-			timeout.cancelAndSet(execute, 50000);
-			listener = TokenizationRegistry.onDidChange(e => {
-				if (e.changedLanguages.indexOf(language!) >= 0) {
-					execute();
-				}
-			});
+	/**
+	 * Tokenize `text` into the encoded format of `ITokenizationSupport.tokenize2`:
+	 * one array of `[startIndex, metadata]` pairs per line, with color ids of the current theme.
+	 */
+	public static tokenizeEncoded(
+		modeService: IModeService,
+		text: string,
+		mimeType: string,
+		loadTimeout?: number
+	): Promise<Uint32Array[]> {
+		let lines = _splitLines(text);
+		return _getTokenizationSupportForMimeType(
+			modeService,
+			mimeType,
+			loadTimeout
+		).then(tokenizationSupport =>
+			_whenLoaded(tokenizationSupport, () =>
+				_tokenizeEncoded(lines, tokenizationSupport)
+			)
+		);
+	}
+
+	/**
+	 * Tokenize `text` and record what the Monarch tokenizer did on every line, see `IMonarchTrace`.
+	 * Rejects if the language is not tokenized by a Monarch grammar. A line the tokenizer fails on
+	 * gets an `error`, the next line continues with the state the failed line started with.
+	 */
+	public static trace(
+		modeService: IModeService,
+		text: string,
+		mimeType: string,
+		loadTimeout?: number
+	): Promise<IMonarchTrace> {
+		let lines = _splitLines(text);
+		return _getTokenizationSupportForMimeType(
+			modeService,
+			mimeType,
+			loadTimeout
+		).then(tokenizationSupport => {
+			if (!(tokenizationSupport instanceof MonarchTokenizer)) {
+				throw illegalArgument(
+					`'${mimeType}' is not tokenized by a Monarch grammar`
+				);
+			}
+			return _whenLoaded(tokenizationSupport, () =>
+				_trace(lines, modeService.getModeId(mimeType)!, tokenizationSupport)
+			);
 		});
 	}
 
+	/**
+	 * Tokenize every text of `corpus` and report which states, rules and `cases` branches
+	 * of the Monarch grammar were used. Rejects if the language is not tokenized by a Monarch grammar.
+	 */
+	public static coverage(
+		modeService: IModeService,
+		corpus: string[],
+		mimeType: string,
+		loadTimeout?: number
+	): Promise<IMonarchCoverageReport> {
+		const documents = corpus.map(_splitLines);
+		return _getTokenizationSupportForMimeType(
+			modeService,
+			mimeType,
+			loadTimeout
+		).then(tokenizationSupport => {
+			if (!(tokenizationSupport instanceof MonarchTokenizer)) {
+				throw illegalArgument(
+					`'${mimeType}' is not tokenized by a Monarch grammar`
+				);
+			}
+			return _whenLoaded(tokenizationSupport, () =>
+				tokenizationSupport.measureCoverage(documents).getReport()
+			);
+		});
+	}
+
+	/**
+	 * Colorize consecutive `lines`, carrying the tokenizer state from line to line.
+	 * Resolves with the HTML of every line.
+	 */
+	public static colorizeLines(
+		modeService: IModeService,
+		lines: string[],
+		mimeType: string,
+		tabSize: number = 4
+	): Promise<string[]> {
+		return _getTokenizationSupportForMimeType(modeService, mimeType).then(
+			tokenizationSupport =>
+				_whenLoaded(tokenizationSupport, () =>
+					lines.map(_createClassNameLineRenderer(tabSize, [], null, tokenizationSupport))
+				)
+		);
+	}
+
 	public static colorizeLine(
 		line: string,
 		mightContainNonBasicASCII: boolean,
@@ -192,45 +537,508 @@ export class Colorizer {
 	}
 }
 
-function _colorize(
-	lines: string[],
-	tabSize: number,
-	tokenizationSupport: ITokenizationSupport
-): Promise<string> {
-	return new Promise<string>((c, e) => {
+const DEFAULT_METADATA =
+	((FontStyle.None << MetadataConsts.FONT_STYLE_OFFSET) |
+		(ColorId.DefaultForeground << MetadataConsts.FOREGROUND_OFFSET) |
+		(ColorId.DefaultBackground << MetadataConsts.BACKGROUND_OFFSET)) >>>
+	0;
+
+/**
+ * See `IColorizerOptions.loadTimeout`.
+ */
+const DEFAULT_LOAD_TIMEOUT = 50000;
+
+/**
+ * Rejects if the language fails to load, see `languageLoadFailed`.
+ */
+function _getTokenizationSupport(
+	modeService: IModeService,
+	language: string,
+	loadTimeout: number = DEFAULT_LOAD_TIMEOUT
+): Promise<ITokenizationSupport | null> {
+	// Send out the event to create the mode
+	modeService.triggerMode(language);
+
+	let tokenizationSupport = TokenizationRegistry.get(language);
+	if (tokenizationSupport) {
+		return Promise.resolve(tokenizationSupport);
+	}
+
+	return new Promise<ITokenizationSupport | null>((resolve, reject) => {
+		let listener: IDisposable | null = null;
+		let timeout: TimeoutTimer | null = null;
+
+		const dispose = () => {
+			if (listener) {
+				listener.dispose();
+				listener = null;
+			}
+			if (timeout) {
+				timeout.dispose();
+				timeout = null;
+			}
+		};
 		const execute = () => {
-			const result = _actualColorize(lines, tabSize, tokenizationSupport);
+			dispose();
+			resolve(TokenizationRegistry.get(language));
+		};
+
+		let tokenizationSupportPromise = TokenizationRegistry.getPromise(language);
+		if (tokenizationSupportPromise) {
+			// A tokenizer will be registered soon
+			tokenizationSupportPromise.then(execute, err => {
+				dispose();
+				reject(err);
+			});
+		} else {
+			listener = TokenizationRegistry.onDidChange(e => {
+				if (e.changedLanguages.indexOf(language) >= 0) {
+					execute();
+				}
+			});
+		}
+
+		// wait `loadTimeout` ms for mode to load, then give up
+		timeout = new TimeoutTimer();
+		timeout.cancelAndSet(execute, loadTimeout);
+	});
+}
+
+function _getTokenizationSupportForMimeType(
+	modeService: IModeService,
+	mimeType: string | null,
+	loadTimeout?: number
+): Promise<ITokenizationSupport | null> {
+	let language = mimeType ? modeService.getModeId(mimeType) : null;
+	if (!language) {
+		return Promise.resolve(null);
+	}
+	return _getTokenizationSupport(modeService, language, loadTimeout);
+}
+
+/**
+ * The language id that makes `colorize` guess the language from the text.
+ */
+const AUTO_LANGUAGE = "auto";
+
+/**
+ * Below this confidence `"auto"` rather leaves the text uncolored.
+ */
+const MIN_GUESS_CONFIDENCE = 0.5;
+
+function _resolveModeId(
+	modeService: IModeService,
+	mimeType: string | null | undefined,
+	options: IColorizerOptions | null | undefined,
+	lines: string[]
+): Promise<string | null> {
+	if (mimeType !== AUTO_LANGUAGE) {
+		return Promise.resolve(_detectModeId(modeService, mimeType, options, lines));
+	}
+	const modeId = _detectModeId(modeService, null, options, lines);
+	if (modeId) {
+		return Promise.resolve(modeId);
+	}
+	return Colorizer.guessLanguage(
+		modeService,
+		getGuessSample(lines).join("\n"),
+		options ? options.candidates : undefined,
+		options ? options.loadTimeout : undefined
+	).then(guesses =>
+		guesses.length > 0 && guesses[0].confidence >= MIN_GUESS_CONFIDENCE
+			? guesses[0].languageId
+			: null
+	);
+}
+
+/**
+ * The mode of `mimeType`, falling back to the one registered for `options.filename`
+ * or matching the first line, e.g. a shebang.
+ */
+function _detectModeId(
+	modeService: IModeService,
+	mimeType: string | null | undefined,
+	options: IColorizerOptions | null | undefined,
+	lines: string[]
+): string | null {
+	const modeId = mimeType ? modeService.getModeId(mimeType) : null;
+	if (modeId) {
+		return modeId;
+	}
+	return modeService.getModeIdByFilepathOrFirstLine(
+		(options && options.filename) || null,
+		lines[0]
+	);
+}
+
+/**
+ * Run `compute` again until the embedded languages it ran into have been loaded.
+ */
+function _whenLoaded<T>(
+	tokenizationSupport: ITokenizationSupport | null,
+	compute: () => T | Promise<T>
+): Promise<T> {
+	const execute = (): Promise<T> =>
+		Promise.resolve(compute()).then(result => {
 			if (tokenizationSupport instanceof MonarchTokenizer) {
 				const status = (tokenizationSupport as any).getLoadStatus();
 				if (status.loaded === false) {
-					status.promise.then(execute, e);
-					return;
+					return status.promise.then(execute);
 				}
 			}
-			c(result);
-		};
-		execute();
+			return result;
+		});
+	return execute();
+}
+
+/**
+ * Rejects with a cancellation error as soon as `token` is cancelled, without waiting for `promise`.
+ */
+function _raceCancellation<T>(
+	promise: Promise<T>,
+	token: CancellationToken
+): Promise<T> {
+	return new Promise<T>((resolve, reject) => {
+		if (token.isCancellationRequested) {
+			reject(canceled());
+		}
+		// the promise is still handled, a rejection after cancelling is dropped
+		const listener = token.onCancellationRequested(() => {
+			listener.dispose();
+			reject(canceled());
+		});
+		promise.then(
+			result => {
+				listener.dispose();
+				resolve(result);
+			},
+			err => {
+				listener.dispose();
+				reject(err);
+			}
+		);
 	});
 }
 
-function _fakeColorize(lines: string[], tabSize: number): string {
-	let html: string[] = [];
+function _splitLines(text: string): string[] {
+	if (strings.startsWithUTF8BOM(text)) {
+		text = text.substr(1);
+	}
+	return text.split(/\r\n|\r|\n/);
+}
+
+/**
+ * Renders the gutter in front of the line with index `lineIndex`.
+ */
+type GutterRenderer = (lineIndex: number) => string;
+
+const NO_GUTTER: GutterRenderer = () => "";
 
-	const defaultMetadata =
-		((FontStyle.None << MetadataConsts.FONT_STYLE_OFFSET) |
-			(ColorId.DefaultForeground << MetadataConsts.FOREGROUND_OFFSET) |
-			(ColorId.DefaultBackground << MetadataConsts.BACKGROUND_OFFSET)) >>>
-		0;
+const GUTTER_STYLE =
+	"display: inline-block; box-sizing: content-box; padding-right: 1em; text-align: right; text-decoration: none; -webkit-user-select: none; user-select: none;";
 
-	const tokens = new Uint32Array(2);
-	tokens[0] = 0;
-	tokens[1] = defaultMetadata;
+registerThemingParticipant((theme, collector) => {
+	collector.addRule(`.mtln { ${GUTTER_STYLE} }`);
+	collector.addRule(`.mtln::before { content: attr(data-line-number); }`);
+	const lineNumbers = theme.getColor(editorLineNumbers);
+	if (lineNumbers) {
+		collector.addRule(`.mtln { color: ${lineNumbers}; }`);
+	}
+	const rangeHighlight = theme.getColor(editorRangeHighlight);
+	if (rangeHighlight) {
+		collector.addRule(`.mthl { background-color: ${rangeHighlight}; }`);
+	}
+});
+
+/**
+ * With a theme the numbers are written out with inline styles, otherwise they are
+ * rendered by the `.mtln` rules of the theme CSS. Either way copying only picks up the code.
+ */
+function _createGutterRenderer(
+	options: IColorizerOptions | null | undefined,
+	lineCount: number,
+	theme: IStandaloneTheme | null
+): GutterRenderer {
+	if (!options || !options.lineNumbers) {
+		return NO_GUTTER;
+	}
+	const lineNumbers: IColorizerLineNumbersOptions =
+		typeof options.lineNumbers === "object" ? options.lineNumbers : {};
+	const start = typeof lineNumbers.start === "number" ? lineNumbers.start : 1;
+	const width =
+		typeof lineNumbers.width === "number"
+			? lineNumbers.width
+			: String(start + lineCount - 1).length;
+	const anchorPrefix = lineNumbers.anchorPrefix
+		? strings.escape(lineNumbers.anchorPrefix).replace(/"/g, "&quot;")
+		: null;
 
+	let style = `width: ${width}ch;`;
+	if (theme) {
+		style = `${GUTTER_STYLE} ${style}`;
+		const color = theme.getColor(editorLineNumbers);
+		if (color) {
+			style += ` color: ${color};`;
+		}
+	}
+
+	return lineIndex => {
+		const lineNumber = start + lineIndex;
+		const tagName = anchorPrefix ? "a" : "span";
+		let attributes = theme
+			? `style="${style}"`
+			: `class="mtln" data-line-number="${lineNumber}" style="${style}"`;
+		if (anchorPrefix) {
+			const id = anchorPrefix + lineNumber;
+			attributes += ` id="${id}" href="#${id}"`;
+		}
+		const content = theme ? String(lineNumber) : "";
+		return `<${tagName} ${attributes}>${content}</${tagName}>`;
+	};
+}
+
+function _createDecorations(
+	options: IColorizerOptions | null | undefined,
+	lines: string[]
+): InlineDecoration[] {
+	let result: InlineDecoration[] = [];
+	if (!options) {
+		return result;
+	}
+	if (options.highlightLines) {
+		for (const lineRange of options.highlightLines) {
+			const match = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(String(lineRange));
+			if (!match) {
+				throw illegalArgument(`highlightLines: ${lineRange}`);
+			}
+			const startLine = parseInt(match[1], 10);
+			if (startLine < 1) {
+				throw illegalArgument(`highlightLines: ${lineRange}`);
+			}
+			const endLine = Math.min(
+				lines.length,
+				match[2] ? parseInt(match[2], 10) : startLine
+			);
+			if (startLine > endLine) {
+				continue;
+			}
+			result.push(
+				new InlineDecoration(
+					new Range(startLine, 1, endLine, lines[endLine - 1].length + 1),
+					"mthl",
+					InlineDecorationType.Regular
+				)
+			);
+		}
+	}
+	if (options.ranges) {
+		const isColumn = (lineNumber: number, column: number) =>
+			lineNumber >= 1 &&
+			lineNumber <= lines.length &&
+			column >= 1 &&
+			column <= lines[lineNumber - 1].length + 1;
+		for (const range of options.ranges) {
+			if (
+				!isColumn(range.startLine, range.startColumn) ||
+				!isColumn(range.endLine, range.endColumn) ||
+				range.startLine > range.endLine ||
+				(range.startLine === range.endLine &&
+					range.startColumn > range.endColumn)
+			) {
+				throw illegalArgument(
+					`ranges: ${range.startLine}:${range.startColumn}-${range.endLine}:${range.endColumn}`
+				);
+			}
+			result.push(
+				new InlineDecoration(
+					new Range(
+						range.startLine,
+						range.startColumn,
+						range.endLine,
+						range.endColumn
+					),
+					range.className,
+					InlineDecorationType.Regular
+				)
+			);
+		}
+	}
+	return result;
+}
+
+/**
+ * Renders one line after the other, carrying the tokenizer state from line to line.
+ */
+type LineRenderer = (line: string, lineIndex: number) => string;
+
+/**
+ * Create one for every rendering of a document, `renderLine` keeps the tokenizer state.
+ */
+interface IDocumentRenderer {
+	readonly prefix: string;
+	readonly suffix: string;
+	readonly renderLine: LineRenderer;
+}
+
+function _createDocumentRenderer(
+	themeService: IStandaloneThemeService,
+	lines: string[],
+	options: IColorizerOptions | null | undefined,
+	tokenizationSupport: ITokenizationSupport | null
+): IDocumentRenderer {
+	let tabSize = 4;
+	if (options && typeof options.tabSize === "number") {
+		tabSize = options.tabSize;
+	}
+	if (
+		options &&
+		options.output &&
+		options.output !== "classNames" &&
+		((options.highlightLines && options.highlightLines.length > 0) ||
+			(options.ranges && options.ranges.length > 0))
+	) {
+		throw illegalArgument(
+			`highlightLines and ranges need the "classNames" output, not "${options.output}"`
+		);
+	}
+
+	let prefix = "";
+	let suffix = "";
+	let gutter: GutterRenderer;
+	let renderLine: LineRenderer;
+	if (options && options.output === "inlineStyles") {
+		const theme = options.theme
+			? themeService.getThemeByName(options.theme)
+			: themeService.getTheme();
+		const tokenTheme = theme.tokenTheme;
+		const colorMap = tokenTheme.getColorMap().map(color => String(color));
+
+		let wrapperStyle = "";
+		const background = theme.getColor(editorBackground);
+		if (background) {
+			wrapperStyle += `background-color: ${background};`;
+		}
+		const foreground = theme.getColor(editorForeground);
+		if (foreground) {
+			wrapperStyle += `color: ${foreground};`;
+		}
+		prefix = `<div style="${wrapperStyle}">`;
+		suffix = "</div>";
+
+		gutter = _createGutterRenderer(options, lines.length, theme);
+		renderLine = _createInlineStyleLineRenderer(
+			tabSize,
+			tokenTheme,
+			colorMap,
+			tokenizationSupport
+		);
+	} else if (options && options.output === "semanticClassNames") {
+		gutter = _createGutterRenderer(options, lines.length, null);
+		renderLine = _createSemanticLineRenderer(tabSize, tokenizationSupport);
+	} else {
+		// without a theme the tokenizer resolves the class names against the current one
+		const tokenTheme =
+			options && options.theme
+				? themeService.getThemeByName(options.theme).tokenTheme
+				: null;
+		const decorations = _createDecorations(options, lines);
+		gutter = _createGutterRenderer(options, lines.length, null);
+		renderLine = _createClassNameLineRenderer(
+			tabSize,
+			decorations,
+			tokenTheme,
+			tokenizationSupport
+		);
+	}
+
+	return {
+		prefix,
+		suffix,
+		renderLine: (line, lineIndex) =>
+			gutter(lineIndex) + renderLine(line, lineIndex) + "<br/>"
+	};
+}
+
+function _renderDocument(lines: string[], renderer: IDocumentRenderer): string {
+	const renderLine = renderer.renderLine;
+	let html: string[] = [renderer.prefix];
 	for (let i = 0, length = lines.length; i < length; i++) {
-		let line = lines[i];
+		html.push(renderLine(lines[i], i));
+	}
+	html.push(renderer.suffix);
+	return html.join("");
+}
+
+function _renderDocumentChunked(
+	lines: string[],
+	renderer: IDocumentRenderer,
+	options: IColorizerChunkedOptions,
+	token: CancellationToken
+): Promise<string> {
+	const chunkLines = options.chunkLines || 1000;
+	const chunkTime =
+		typeof options.chunkTime === "number" ? options.chunkTime : 10;
 
-		tokens[0] = line.length;
-		const lineTokens = new LineTokens(tokens, line);
+	const renderLine = renderer.renderLine;
+	let html: string[] = [renderer.prefix];
+	let lineIndex = 0;
+
+	const renderChunk = (): Promise<string> => {
+		if (token.isCancellationRequested) {
+			return Promise.reject(canceled());
+		}
+
+		const chunkEnd = Math.min(lines.length, lineIndex + chunkLines);
+		const deadline = Date.now() + chunkTime;
+		while (lineIndex < chunkEnd) {
+			html.push(renderLine(lines[lineIndex], lineIndex));
+			lineIndex++;
+			if (Date.now() >= deadline) {
+				break;
+			}
+		}
+		if (options.onProgress) {
+			options.onProgress(lineIndex, lines.length);
+		}
+
+		if (lineIndex >= lines.length) {
+			html.push(renderer.suffix);
+			return Promise.resolve(html.join(""));
+		}
+		return timeout(0).then(renderChunk);
+	};
+	return renderChunk();
+}
+
+function _createClassNameLineRenderer(
+	tabSize: number,
+	decorations: InlineDecoration[],
+	tokenTheme: TokenTheme | null,
+	tokenizationSupport: ITokenizationSupport | null
+): LineRenderer {
+	let state = tokenizationSupport
+		? tokenizationSupport.getInitialState()
+		: null;
+
+	return (line, lineIndex) => {
+		let lineTokens: IViewLineTokens;
+		if (tokenizationSupport && tokenTheme) {
+			let tokenizeResult = tokenizationSupport.tokenize(line, state!, 0);
+			let binaryTokens = _toBinaryTokens(tokenizeResult.tokens, tokenTheme);
+			LineTokens.convertToEndOffset(binaryTokens, line.length);
+			lineTokens = new LineTokens(binaryTokens, line).inflate();
+			state = tokenizeResult.endState;
+		} else if (tokenizationSupport) {
+			let tokenizeResult = tokenizationSupport.tokenize2(line, state!, 0);
+			LineTokens.convertToEndOffset(tokenizeResult.tokens, line.length);
+			lineTokens = new LineTokens(tokenizeResult.tokens, line).inflate();
+			state = tokenizeResult.endState;
+		} else {
+			const tokens = new Uint32Array(2);
+			tokens[0] = line.length;
+			tokens[1] = DEFAULT_METADATA;
+			lineTokens = new LineTokens(tokens, line);
+		}
 
 		const isBasicASCII = ViewLineRenderingData.isBasicASCII(
 			line,
@@ -251,7 +1059,7 @@ function _fakeColorize(lines: string[], tabSize: number): string {
 				containsRTL,
 				0,
 				lineTokens,
-				[],
+				LineDecoration.filter(decorations, lineIndex + 1, 1, line.length + 1),
 				tabSize,
 				0,
 				-1,
@@ -260,61 +1068,277 @@ function _fakeColorize(lines: string[], tabSize: number): string {
 				false
 			)
 		);
+		return renderResult.html;
+	};
+}
+
+function _createInlineStyleLineRenderer(
+	tabSize: number,
+	tokenTheme: TokenTheme,
+	colorMap: string[],
+	tokenizationSupport: ITokenizationSupport | null
+): LineRenderer {
+	let state = tokenizationSupport
+		? tokenizationSupport.getInitialState()
+		: null;
+
+	return line => {
+		let tokens: Token[];
+		if (tokenizationSupport) {
+			let tokenizeResult = tokenizationSupport.tokenize(line, state!, 0);
+			tokens = tokenizeResult.tokens;
+			state = tokenizeResult.endState;
+		} else {
+			tokens = [new Token(0, "", "")];
+		}
+		let binaryTokens = _toBinaryTokens(tokens, tokenTheme);
+		LineTokens.convertToEndOffset(binaryTokens, line.length);
+		const lineTokens = new LineTokens(binaryTokens, line);
+		let spans: ISpan[] = [];
+		for (let i = 0, count = lineTokens.getCount(); i < count; i++) {
+			spans.push({
+				endOffset: lineTokens.getEndOffset(i),
+				attributes: `style="${lineTokens.getInlineStyle(i, colorMap)}"`
+			});
+		}
+		return _renderSpans(line, spans, tabSize);
+	};
+}
+
+function _createSemanticLineRenderer(
+	tabSize: number,
+	tokenizationSupport: ITokenizationSupport | null
+): LineRenderer {
+	let state = tokenizationSupport
+		? tokenizationSupport.getInitialState()
+		: null;
+	let tokenPostfixes: { [languageId: string]: string } = Object.create(null);
+	const getTokenPostfix = (languageId: string) => {
+		if (!(languageId in tokenPostfixes)) {
+			const support = TokenizationRegistry.get(languageId);
+			tokenPostfixes[languageId] =
+				support instanceof MonarchTokenizer ? support.getTokenPostfix() : "";
+		}
+		return tokenPostfixes[languageId];
+	};
+
+	return line => {
+		let tokens: Token[];
+		if (tokenizationSupport) {
+			let tokenizeResult = tokenizationSupport.tokenize(line, state!, 0);
+			tokens = tokenizeResult.tokens;
+			state = tokenizeResult.endState;
+		} else {
+			tokens = [new Token(0, "", "")];
+		}
+		let spans: ISpan[] = [];
+		for (let i = 0, len = tokens.length; i < len; i++) {
+			const attributes = `class="${getSemanticClassNames(
+				tokens[i].type,
+				getTokenPostfix(tokens[i].language)
+			)}"`;
+			const endOffset = i + 1 < len ? tokens[i + 1].offset : line.length;
+			if (spans.length > 0 && spans[spans.length - 1].attributes === attributes) {
+				// same classes as the previous token
+				spans[spans.length - 1].endOffset = endOffset;
+			} else {
+				spans.push({ endOffset, attributes });
+			}
+		}
+		return _renderSpans(line, spans, tabSize);
+	};
+}
 
-		html = html.concat(renderResult.html);
-		html.push("<br/>");
+function _toBinaryTokens(tokens: Token[], tokenTheme: TokenTheme): Uint32Array {
+	let result = new Uint32Array(tokens.length << 1);
+	let resultLen = 0;
+	let previousMetadata = 0;
+	for (let i = 0, len = tokens.length; i < len; i++) {
+		const token = tokens[i];
+		const metadata = tokenTheme.match(LanguageId.Null, token.type);
+		if (resultLen > 0 && previousMetadata === metadata) {
+			// same styling as the previous token
+			continue;
+		}
+		result[resultLen++] = token.offset;
+		result[resultLen++] = metadata;
+		previousMetadata = metadata;
 	}
+	return resultLen === result.length ? result : result.subarray(0, resultLen);
+}
 
-	return html.join("");
+/**
+ * A part of a line, up to `endOffset`, rendered with `attributes`.
+ */
+interface ISpan {
+	endOffset: number;
+	attributes: string;
 }
 
-function _actualColorize(
+function _renderSpans(line: string, spans: ISpan[], tabSize: number): string {
+	let result = "<span>";
+	let charIndex = 0;
+	let tabsCharDelta = 0;
+
+	for (const span of spans) {
+		const tokenEndIndex = span.endOffset;
+		let partContent = "";
+
+		for (; charIndex < tokenEndIndex; charIndex++) {
+			const charCode = line.charCodeAt(charIndex);
+			switch (charCode) {
+				case CharCode.Tab:
+					let insertSpacesCount =
+						tabSize - ((charIndex + tabsCharDelta) % tabSize);
+					tabsCharDelta += insertSpacesCount - 1;
+					while (insertSpacesCount > 0) {
+						partContent += "&nbsp;";
+						insertSpacesCount--;
+					}
+					break;
+				case CharCode.Space:
+					partContent += "&nbsp;";
+					break;
+				case CharCode.LessThan:
+					partContent += "&lt;";
+					break;
+				case CharCode.GreaterThan:
+					partContent += "&gt;";
+					break;
+				case CharCode.Ampersand:
+					partContent += "&amp;";
+					break;
+				case CharCode.Null:
+					partContent += "&#00;";
+					break;
+				case CharCode.UTF8_BOM:
+				case CharCode.LINE_SEPARATOR_2028:
+					partContent += "\ufffd";
+					break;
+				default:
+					partContent += String.fromCharCode(charCode);
+			}
+		}
+
+		if (partContent) {
+			result += `<span ${span.attributes}>${partContent}</span>`;
+		}
+	}
+
+	return result + "</span>";
+}
+
+function _tokenizeEncoded(
 	lines: string[],
-	tabSize: number,
+	tokenizationSupport: ITokenizationSupport | null
+): Uint32Array[] {
+	let result: Uint32Array[] = [];
+	let state = tokenizationSupport
+		? tokenizationSupport.getInitialState()
+		: null;
+	for (let i = 0, length = lines.length; i < length; i++) {
+		if (tokenizationSupport) {
+			let tokenizeResult = tokenizationSupport.tokenize2(lines[i], state!, 0);
+			result[i] = tokenizeResult.tokens;
+			state = tokenizeResult.endState;
+		} else {
+			result[i] = new Uint32Array([0, DEFAULT_METADATA]);
+		}
+	}
+	return result;
+}
+
+function _trace(
+	lines: string[],
+	languageId: string,
+	tokenizer: MonarchTokenizer
+): IMonarchTrace {
+	let result: IMonarchLineTrace[] = [];
+	let state = tokenizer.getInitialState();
+	for (let i = 0, length = lines.length; i < length; i++) {
+		const traceResult = tokenizer.traceTokenize(lines[i], state);
+		result[i] = traceResult.trace;
+		state = traceResult.endState;
+	}
+	return { languageId, lines: result };
+}
+
+function _tokenize(
+	lines: string[],
+	tokenTheme: TokenTheme,
 	tokenizationSupport: ITokenizationSupport
-): string {
-	let html: string[] = [];
-	let state = tokenizationSupport.getInitialState();
+): Promise<IColorizerToken[][]> {
+	return _whenLoaded(tokenizationSupport, () =>
+		_actualTokenize(lines, tokenTheme, tokenizationSupport)
+	);
+}
 
+function _fakeTokenize(
+	lines: string[],
+	language: string,
+	tokenTheme: TokenTheme
+): IColorizerToken[][] {
+	let result: IColorizerToken[][] = [];
 	for (let i = 0, length = lines.length; i < length; i++) {
-		let line = lines[i];
-		let tokenizeResult = tokenizationSupport.tokenize2(line, state, 0);
-		LineTokens.convertToEndOffset(tokenizeResult.tokens, line.length);
-		let lineTokens = new LineTokens(tokenizeResult.tokens, line);
-		const isBasicASCII = ViewLineRenderingData.isBasicASCII(
-			line,
-			/* check for basic ASCII */ true
-		);
-		const containsRTL = ViewLineRenderingData.containsRTL(
-			line,
-			isBasicASCII,
-			/* check for RTL */ true
-		);
-		let renderResult = renderViewLine(
-			new RenderLineInput(
-				false,
-				true,
-				line,
-				false,
-				isBasicASCII,
-				containsRTL,
-				0,
-				lineTokens.inflate(),
-				[],
-				tabSize,
-				0,
-				-1,
-				"none",
-				false,
-				false
-			)
+		result[i] = _resolveTokens(
+			[new Token(0, "", language)],
+			lines[i].length,
+			tokenTheme
 		);
+	}
+	return result;
+}
 
-		html = html.concat(renderResult.html);
-		html.push("<br/>");
+function _actualTokenize(
+	lines: string[],
+	tokenTheme: TokenTheme,
+	tokenizationSupport: ITokenizationSupport
+): IColorizerToken[][] {
+	let result: IColorizerToken[][] = [];
+	let state = tokenizationSupport.getInitialState();
 
+	for (let i = 0, length = lines.length; i < length; i++) {
+		let line = lines[i];
+		let tokenizeResult = tokenizationSupport.tokenize(line, state, 0);
+		result[i] = _resolveTokens(tokenizeResult.tokens, line.length, tokenTheme);
 		state = tokenizeResult.endState;
 	}
 
-	return html.join("");
+	return result;
+}
+
+function _resolveTokens(
+	tokens: Token[],
+	lineLength: number,
+	tokenTheme: TokenTheme
+): IColorizerToken[] {
+	const colorMap = tokenTheme.getColorMap();
+	let result: IColorizerToken[] = [];
+	for (let i = 0, len = tokens.length; i < len; i++) {
+		const token = tokens[i];
+		const metadata = tokenTheme.match(LanguageId.Null, token.type);
+		result[i] = {
+			startIndex: token.offset,
+			endIndex: i + 1 < len ? tokens[i + 1].offset : lineLength,
+			type: token.type,
+			language: token.language,
+			foreground: String(colorMap[TokenMetadata.getForeground(metadata)]),
+			fontStyle: _fontStyleToString(TokenMetadata.getFontStyle(metadata))
+		};
+	}
+	return result;
+}
+
+function _fontStyleToString(fontStyle: FontStyle): string {
+	let result: string[] = [];
+	if (fontStyle & FontStyle.Italic) {
+		result.push("italic");
+	}
+	if (fontStyle & FontStyle.Bold) {
+		result.push("bold");
+	}
+	if (fontStyle & FontStyle.Underline) {
+		result.push("underline");
+	}
+	return result.join(" ");
 }
@@ -0,0 +1,191 @@
+import * as strings from "vs/base/common/strings";
+import { IModeService } from "vs/editor/common/services/modeService";
+import { editorLineNumbers } from "vs/editor/common/view/editorColorRegistry";
+import { Colorizer } from "vs/editor/standalone/browser/colorizer";
+import {
+	DiffLineType,
+	IDiffLine,
+	computeLineDiff,
+	parseUnifiedDiff
+} from "vs/editor/standalone/common/lineDiff";
+import {
+	diffInsertedLine,
+	diffInsertedLineGutter,
+	diffInsertedOutline,
+	diffRemovedLine,
+	diffRemovedLineGutter,
+	diffRemovedOutline
+} from "vs/platform/theme/common/colorRegistry";
+import { registerThemingParticipant } from "vs/platform/theme/common/themeService";
+
+export interface IDiffTexts {
+	original: string;
+	modified: string;
+}
+
+export interface IDiffColorizerOptions {
+	tabSize?: number;
+	/**
+	 * Render the original and modified line numbers in front of the markers.
+	 */
+	lineNumbers?: boolean;
+}
+
+registerThemingParticipant((theme, collector) => {
+	collector.addRule(
+		`.mtdg { display: inline-block; width: 1ch; padding: 0 0.5em; -webkit-user-select: none; user-select: none; }`
+	);
+	collector.addRule(`.mtdg::before { content: attr(data-marker); }`);
+
+	const inserted = theme.getColor(diffInsertedLine);
+	if (inserted) {
+		collector.addRule(`.mtdi { background-color: ${inserted}; }`);
+	}
+	const removed = theme.getColor(diffRemovedLine);
+	if (removed) {
+		collector.addRule(`.mtdr { background-color: ${removed}; }`);
+	}
+	const insertedGutter = theme.getColor(diffInsertedLineGutter);
+	if (insertedGutter) {
+		collector.addRule(`.mtdi .mtdg { background-color: ${insertedGutter}; }`);
+	}
+	const removedGutter = theme.getColor(diffRemovedLineGutter);
+	if (removedGutter) {
+		collector.addRule(`.mtdr .mtdg { background-color: ${removedGutter}; }`);
+	}
+
+	const insertedOutline = theme.getColor(diffInsertedOutline);
+	if (insertedOutline) {
+		collector.addRule(`.mtdi { outline: 1px dashed ${insertedOutline}; }`);
+	}
+	const removedOutline = theme.getColor(diffRemovedOutline);
+	if (removedOutline) {
+		collector.addRule(`.mtdr { outline: 1px dashed ${removedOutline}; }`);
+	}
+
+	const hunk = theme.getColor(editorLineNumbers);
+	if (hunk) {
+		collector.addRule(`.mtdh { color: ${hunk}; }`);
+	}
+});
+
+export class DiffColorizer {
+	/**
+	 * Colorize a unified diff or an original/modified pair. Both sides are tokenized
+	 * on their own so that multi-line constructs carry over correctly.
+	 * Every line is rendered as a `<div>` with a `+`/`-` marker, inserted lines have
+	 * the `.mtdi`, removed lines the `.mtdr` and hunk headers the `.mtdh` class.
+	 */
+	public static colorizeDiff(
+		modeService: IModeService,
+		diff: string | IDiffTexts,
+		mimeType: string,
+		options: IDiffColorizerOptions | null | undefined
+	): Promise<string> {
+		let tabSize = 4;
+		if (options && typeof options.tabSize === "number") {
+			tabSize = options.tabSize;
+		}
+		const lineNumbers = !!(options && options.lineNumbers);
+
+		let diffLines: IDiffLine[];
+		if (typeof diff === "string") {
+			diffLines = parseUnifiedDiff(diff);
+		} else {
+			diffLines = computeLineDiff(
+				_splitLines(diff.original),
+				_splitLines(diff.modified)
+			);
+		}
+
+		let originalLines: string[] = [];
+		let modifiedLines: string[] = [];
+		for (const line of diffLines) {
+			if (
+				line.type === DiffLineType.Context ||
+				line.type === DiffLineType.Removed
+			) {
+				originalLines.push(line.content);
+			}
+			if (
+				line.type === DiffLineType.Context ||
+				line.type === DiffLineType.Inserted
+			) {
+				modifiedLines.push(line.content);
+			}
+		}
+
+		return Promise.all([
+			Colorizer.colorizeLines(modeService, originalLines, mimeType, tabSize),
+			Colorizer.colorizeLines(modeService, modifiedLines, mimeType, tabSize)
+		]).then(([originalHtml, modifiedHtml]) => {
+			let width = 1;
+			if (lineNumbers) {
+				for (const line of diffLines) {
+					width = Math.max(
+						width,
+						String(line.originalLineNumber).length,
+						String(line.modifiedLineNumber).length
+					);
+				}
+			}
+
+			let html: string[] = [];
+			let originalIndex = 0;
+			let modifiedIndex = 0;
+			for (const line of diffLines) {
+				switch (line.type) {
+					case DiffLineType.Hunk:
+						html.push(
+							`<div class="mtdh">${strings.escape(line.content)}</div>`
+						);
+						continue;
+					case DiffLineType.Inserted:
+						html.push(`<div class="mtdi">`);
+						break;
+					case DiffLineType.Removed:
+						html.push(`<div class="mtdr">`);
+						break;
+					default:
+						html.push(`<div>`);
+				}
+
+				if (lineNumbers) {
+					html.push(_renderLineNumber(line.originalLineNumber, width));
+					html.push(_renderLineNumber(line.modifiedLineNumber, width));
+				}
+				const marker =
+					line.type === DiffLineType.Inserted
+						? "+"
+						: line.type === DiffLineType.Removed
+						? "-"
+						: " ";
+				html.push(`<span class="mtdg" data-marker="${marker}"></span>`);
+
+				if (line.type === DiffLineType.Removed) {
+					html.push(originalHtml[originalIndex++]);
+				} else if (line.type === DiffLineType.Inserted) {
+					html.push(modifiedHtml[modifiedIndex++]);
+				} else {
+					originalIndex++;
+					html.push(modifiedHtml[modifiedIndex++]);
+				}
+				html.push(`</div>`);
+			}
+			return html.join("");
+		});
+	}
+}
+
+function _splitLines(text: string): string[] {
+	if (strings.startsWithUTF8BOM(text)) {
+		text = text.substr(1);
+	}
+	return text.split(/\r\n|\r|\n/);
+}
+
+function _renderLineNumber(lineNumber: number, width: number): string {
+	// `.mtln` is styled by the colorizer, 0 marks a line missing on this side
+	const attribute = lineNumber > 0 ? ` data-line-number="${lineNumber}"` : "";
+	return `<span class="mtln"${attribute} style="width: ${width}ch;"></span>`;
+}
@@ -0,0 +1,45 @@
+import { parseMonarch } from "vs/editor/standalone/common/monarch/monarchJson";
+import { IMonarchLanguage } from "vs/editor/standalone/common/monarch/monarchTypes";
+
+declare const require: any;
+declare const process: any;
+
+/**
+ * Load a definition serialized with `serializeMonarch` from `location`, a URL,
+ * or on node.js also a file path. `init` is passed on to `fetch`, e.g. for credentials.
+ */
+export function loadMonarch(
+	location: string,
+	init?: RequestInit
+): Promise<IMonarchLanguage> {
+	return _readText(location, init).then(parseMonarch);
+}
+
+function _readText(location: string, init?: RequestInit): Promise<string> {
+	if (_isNode() && !/^[a-z][a-z0-9+.-]*:\/\//i.test(location)) {
+		return new Promise<string>((resolve, reject) => {
+			require("fs").readFile(location, "utf8", (err: any, text: string) =>
+				err ? reject(err) : resolve(text)
+			);
+		});
+	}
+	return fetch(location, init).then(response => {
+		if (!response.ok) {
+			throw new Error(
+				`Failed to load '${location}': ${response.status} ${response.statusText}`
+			);
+		}
+		return response.text();
+	});
+}
+
+/**
+ * `platform.isNative` is false as soon as there is a global `navigator`, which node.js 21 defines as well.
+ */
+function _isNode(): boolean {
+	return (
+		typeof process !== "undefined" &&
+		!!process.versions &&
+		!!process.versions.node
+	);
+}
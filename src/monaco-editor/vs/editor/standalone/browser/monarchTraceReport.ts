@@ -0,0 +1,131 @@
+import * as strings from "vs/base/common/strings";
+import { IModeService } from "vs/editor/common/services/modeService";
+import { editorLineNumbers } from "vs/editor/common/view/editorColorRegistry";
+import { Colorizer } from "vs/editor/standalone/browser/colorizer";
+import {
+	IMonarchLineTrace,
+	IMonarchTrace,
+	IMonarchTraceEvent,
+	IMonarchTraceStep
+} from "vs/editor/standalone/common/monarch/monarchTrace";
+import {
+	editorWidgetBorder,
+	errorForeground
+} from "vs/platform/theme/common/colorRegistry";
+import { registerThemingParticipant } from "vs/platform/theme/common/themeService";
+
+export interface IMonarchTraceReportOptions {
+	tabSize?: number;
+	/**
+	 * List the rules tried before the matching one, defaults to `false`.
+	 */
+	attempts?: boolean;
+}
+
+registerThemingParticipant((theme, collector) => {
+	collector.addRule(`.mttr { border-collapse: collapse; }`);
+	collector.addRule(`.mttr > tbody > tr > td { vertical-align: top; padding: 0.25em 0.5em; }`);
+	collector.addRule(`.mttr .mttr-steps { border-collapse: collapse; font-size: 90%; }`);
+	collector.addRule(`.mttr .mttr-steps td { padding: 0 0.5em; white-space: pre; }`);
+
+	const border = theme.getColor(editorWidgetBorder);
+	if (border) {
+		collector.addRule(`.mttr > tbody > tr { border-bottom: 1px solid ${border}; }`);
+	}
+	const muted = theme.getColor(editorLineNumbers);
+	if (muted) {
+		collector.addRule(`.mttr .mttr-muted { color: ${muted}; }`);
+	}
+	const error = theme.getColor(errorForeground);
+	if (error) {
+		collector.addRule(`.mttr .mttr-error { color: ${error}; }`);
+	}
+});
+
+export class MonarchTraceReport {
+	/**
+	 * Render `trace` as a `<table class="mttr">` with one row per line: the colorized line
+	 * next to the stack it started with and a table of its steps, i.e. offset, state, matched text
+	 * and rule, the token and the stack changes.
+	 */
+	public static render(
+		modeService: IModeService,
+		trace: IMonarchTrace,
+		options?: IMonarchTraceReportOptions | null
+	): Promise<string> {
+		let tabSize = 4;
+		if (options && typeof options.tabSize === "number") {
+			tabSize = options.tabSize;
+		}
+		const attempts = !!(options && options.attempts);
+
+		return Colorizer.colorizeLines(
+			modeService,
+			trace.lines.map(line => line.line),
+			trace.languageId,
+			tabSize
+		).then(lineHtml => {
+			let html: string[] = [`<table class="mttr"><tbody>`];
+			trace.lines.forEach((line, index) => {
+				html.push(
+					`<tr><td class="mttr-muted">${index + 1}</td>`,
+					`<td>${lineHtml[index]}</td>`,
+					`<td>${_renderLine(line, attempts)}</td></tr>`
+				);
+			});
+			html.push(`</tbody></table>`);
+			return html.join("");
+		});
+	}
+}
+
+function _renderLine(line: IMonarchLineTrace, attempts: boolean): string {
+	let html: string[] = [
+		`<div class="mttr-muted">${strings.escape(line.startStack.join(" > "))}</div>`,
+		`<table class="mttr-steps"><tbody>`
+	];
+	for (const step of line.steps) {
+		html.push(_renderStep(step, attempts));
+	}
+	for (const embedded of line.embedded) {
+		html.push(
+			`<tr><td>${embedded.offset}</td>`,
+			`<td class="mttr-muted">${strings.escape(embedded.languageId)}</td>`,
+			`<td>${strings.escape(JSON.stringify(embedded.text))}</td>`,
+			`<td colspan="3"></td></tr>`
+		);
+	}
+	html.push(`</tbody></table>`);
+	if (line.error) {
+		html.push(`<div class="mttr-error">${strings.escape(line.error)}</div>`);
+	}
+	return html.join("");
+}
+
+function _renderStep(step: IMonarchTraceStep, attempts: boolean): string {
+	// rule names are the state and the regex as written, e.g. `tokenizer.root: @escapes`
+	let rule = step.rule === null ? "(default)" : step.rule;
+	if (step.groups.length > 0) {
+		rule += `\n  groups ${step.groups.map(group => JSON.stringify(group)).join(", ")}`;
+	}
+	if (attempts) {
+		const failed = step.attempts
+			.filter(attempt => !attempt.matched)
+			.map(attempt => attempt.rule);
+		if (failed.length > 0) {
+			rule += `\n  tried ${failed.join(", ")}`;
+		}
+	}
+	return [
+		`<tr><td>${step.offset}</td>`,
+		`<td class="mttr-muted">${strings.escape(step.state)}</td>`,
+		`<td>${strings.escape(JSON.stringify(step.matched))}</td>`,
+		`<td class="mttr-muted">${strings.escape(rule)}</td>`,
+		`<td>${strings.escape(step.token === null ? "" : step.token)}</td>`,
+		`<td>${strings.escape(step.events.map(_eventToString).join(" "))}</td></tr>`
+	].join("");
+}
+
+function _eventToString(event: IMonarchTraceEvent): string {
+	return event.value === undefined ? event.kind : `${event.kind}(${event.value})`;
+}
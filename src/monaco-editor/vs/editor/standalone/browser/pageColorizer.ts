@@ -0,0 +1,303 @@
+import { IDisposable } from "vs/base/common/lifecycle";
+import { IModeService } from "vs/editor/common/services/modeService";
+import {
+	Colorizer,
+	IColorizerOptions
+} from "vs/editor/standalone/browser/colorizer";
+import { IStandaloneThemeService } from "vs/editor/standalone/common/standaloneThemeService";
+
+export interface IColorizeAllOptions extends IColorizerOptions {
+	/**
+	 * The elements to colorize, defaults to `DEFAULT_SELECTOR`.
+	 */
+	selector?: string;
+	/**
+	 * Keep colorizing matching elements that are added to `root` later on.
+	 */
+	observe?: boolean;
+	/**
+	 * Only load languages and colorize blocks once they come close to the viewport,
+	 * visible blocks first. `ready` then resolves once the blocks visible at the start are done.
+	 */
+	lazy?: boolean;
+	/**
+	 * With `lazy`, how close a block has to come to the viewport, defaults to `"200px"`.
+	 */
+	lazyMargin?: string;
+}
+
+export const DEFAULT_SELECTOR =
+	"pre[data-lang], pre[data-filename], pre[class*=language-], code[class*=language-]";
+
+/**
+ * Set on every element that has been picked up, so it is colorized only once.
+ */
+const COLORIZED_ATTRIBUTE = "data-colorized";
+
+/**
+ * Colorizes all elements below `root` that match `options.selector`.
+ * The language is taken from a `language-xxx` class, the `data-lang` or the `lang` attribute,
+ * else it is detected from the `data-filename` attribute or the first line of the text.
+ */
+export class PageColorizer implements IDisposable {
+	/**
+	 * Resolves once the elements found initially (with `lazy`: the visible ones) are colorized.
+	 */
+	public readonly ready: Promise<void>;
+
+	private readonly _modeService: IModeService;
+	private readonly _themeService: IStandaloneThemeService;
+	private readonly _options: IColorizeAllOptions;
+	private readonly _selector: string;
+	/**
+	 * The class `options.theme` is scoped under, added to every element.
+	 */
+	private readonly _themeClassName: string | null = null;
+	private _observer: MutationObserver | null = null;
+
+	private _intersectionObserver: IntersectionObserver | null = null;
+	/**
+	 * Lazy elements waiting to come into view or to be colorized, with their language.
+	 */
+	private readonly _languages = new Map<Element, string>();
+	private _queue: Element[] = [];
+	private _processing = false;
+	private _readyElements: Element[] | null = null;
+	private _resolveReady: (() => void) | null = null;
+
+	constructor(
+		modeService: IModeService,
+		themeService: IStandaloneThemeService,
+		root: Document | Element,
+		options: IColorizeAllOptions | null | undefined
+	) {
+		this._modeService = modeService;
+		this._themeService = themeService;
+		this._options = options || {};
+		this._selector = this._options.selector || DEFAULT_SELECTOR;
+
+		// like `colorizeElement`, leave the current theme alone
+		if (this._options.theme) {
+			this._themeClassName = this._themeService.addScopedTheme(
+				this._options.theme
+			);
+			this._options = { ...this._options, theme: this._themeClassName };
+		}
+
+		if (this._options.lazy) {
+			this._intersectionObserver = new IntersectionObserver(
+				entries => this._onIntersection(entries),
+				{ rootMargin: this._options.lazyMargin || "200px" }
+			);
+			this.ready = new Promise<void>(resolve => {
+				this._resolveReady = resolve;
+			});
+			this._colorizeElements(this._findElements(root));
+			if (this._languages.size === 0) {
+				this._setReady();
+			}
+		} else {
+			this.ready = this._colorizeElements(this._findElements(root));
+		}
+
+		if (this._options.observe) {
+			this._observer = new MutationObserver(mutations => {
+				for (const mutation of mutations) {
+					for (let i = 0; i < mutation.addedNodes.length; i++) {
+						const node = mutation.addedNodes[i];
+						if (node.nodeType === Node.ELEMENT_NODE) {
+							this._colorizeElements(this._findElements(node as Element));
+						}
+					}
+				}
+			});
+			this._observer.observe(root, { childList: true, subtree: true });
+		}
+	}
+
+	/**
+	 * Stop observing `root` and drop the lazy elements that have not been colorized yet.
+	 */
+	public dispose(): void {
+		if (this._observer) {
+			this._observer.disconnect();
+			this._observer = null;
+		}
+		if (this._intersectionObserver) {
+			this._intersectionObserver.disconnect();
+			this._intersectionObserver = null;
+		}
+		this._languages.clear();
+		this._queue = [];
+		this._setReady();
+	}
+
+	private _findElements(root: Document | Element): Element[] {
+		let result: Element[] = [];
+		if (root instanceof Element && root.matches(this._selector)) {
+			result.push(root);
+		}
+		const elements = root.querySelectorAll(this._selector);
+		for (let i = 0; i < elements.length; i++) {
+			result.push(elements[i]);
+		}
+		// nested matches are colorized together with their outermost match
+		return result.filter(
+			element =>
+				!element.hasAttribute(COLORIZED_ATTRIBUTE) &&
+				!(element.parentElement && element.parentElement.closest(this._selector))
+		);
+	}
+
+	private _colorizeElements(elements: Element[]): Promise<void> {
+		let promises: Promise<void>[] = [];
+		for (const element of elements) {
+			const language = this._getLanguage(element);
+			if (!language) {
+				continue;
+			}
+			element.setAttribute(COLORIZED_ATTRIBUTE, "");
+			if (this._intersectionObserver) {
+				this._languages.set(element, language);
+				this._intersectionObserver.observe(element);
+			} else {
+				promises.push(this._colorizeElement(element, language));
+			}
+		}
+		return Promise.all(promises).then(() => undefined);
+	}
+
+	private _colorizeElement(element: Element, language: string): Promise<void> {
+		return Colorizer.colorize(
+			this._modeService,
+			this._themeService,
+			element.textContent || "",
+			language,
+			this._options
+		).then(
+			html => {
+				if (this._options.lazy && !this._languages.has(element)) {
+					// disposed meanwhile
+					return;
+				}
+				element.innerHTML = html;
+				if (this._themeClassName) {
+					element.classList.add(this._themeClassName);
+				}
+			},
+			err => console.error(err)
+		);
+	}
+
+	private _onIntersection(entries: IntersectionObserverEntry[]): void {
+		let visible: Element[] = [];
+		let nearby: Element[] = [];
+		const viewportHeight =
+			window.innerHeight || document.documentElement.clientHeight;
+		for (const entry of entries) {
+			if (!entry.isIntersecting || !this._intersectionObserver) {
+				continue;
+			}
+			this._intersectionObserver.unobserve(entry.target);
+			const rect = entry.boundingClientRect;
+			if (rect.bottom > 0 && rect.top < viewportHeight) {
+				visible.push(entry.target);
+			} else {
+				nearby.push(entry.target);
+			}
+		}
+
+		if (this._resolveReady && !this._readyElements) {
+			// the first notification tells what is visible initially
+			this._readyElements = visible.slice();
+			if (this._readyElements.length === 0) {
+				this._setReady();
+			}
+		}
+
+		this._queue = visible.concat(this._queue, nearby);
+		this._processQueue();
+	}
+
+	/**
+	 * Colorize one element after the other so the page can paint in between.
+	 */
+	private _processQueue(): void {
+		if (this._processing) {
+			return;
+		}
+		const element = this._queue.shift();
+		if (!element) {
+			return;
+		}
+		const language = this._languages.get(element);
+		if (!language) {
+			this._processQueue();
+			return;
+		}
+
+		this._processing = true;
+		this._colorizeElement(element, language).then(() => {
+			if (!this._intersectionObserver) {
+				return;
+			}
+			this._languages.delete(element);
+			if (this._readyElements) {
+				const index = this._readyElements.indexOf(element);
+				if (index >= 0) {
+					this._readyElements.splice(index, 1);
+				}
+				if (this._readyElements.length === 0) {
+					this._setReady();
+				}
+			}
+			setTimeout(() => {
+				this._processing = false;
+				this._processQueue();
+			}, 0);
+		});
+	}
+
+	private _setReady(): void {
+		if (this._resolveReady) {
+			this._resolveReady();
+			this._resolveReady = null;
+		}
+	}
+
+	private _getLanguage(element: Element): string | null {
+		let candidates: string[] = [];
+		for (let i = 0; i < element.classList.length; i++) {
+			const match = /^(?:lang|language)-(.+)$/.exec(element.classList[i]);
+			if (match) {
+				candidates.push(match[1]);
+			}
+		}
+		const dataLang = element.getAttribute("data-lang");
+		if (dataLang) {
+			candidates.push(dataLang);
+		}
+		const lang = element.getAttribute("lang");
+		if (lang) {
+			candidates.push(lang);
+		}
+
+		for (const candidate of candidates) {
+			if (candidate === "auto") {
+				return candidate;
+			}
+			const modeId =
+				this._modeService.getModeId(candidate) ||
+				this._modeService.getModeIdForLanguageName(candidate.toLowerCase());
+			if (modeId) {
+				return modeId;
+			}
+		}
+
+		const text = element.textContent || "";
+		return this._modeService.getModeIdByFilepathOrFirstLine(
+			element.getAttribute("data-filename"),
+			text.substr(0, text.search(/\r|\n|$/))
+		);
+	}
+}
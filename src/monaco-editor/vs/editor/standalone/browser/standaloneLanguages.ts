@@ -5,7 +5,12 @@
 
 import { URI } from "vs/base/common/uri";
 import { CancellationToken } from "vs/base/common/cancellation";
-import { IDisposable } from "vs/base/common/lifecycle";
+import { getErrorMessage } from "vs/base/common/errors";
+import {
+	Disposable,
+	IDisposable,
+	toDisposable
+} from "vs/base/common/lifecycle";
 import { Position } from "vs/editor/common/core/position";
 import { Range } from "vs/editor/common/core/range";
 import {
@@ -32,6 +37,26 @@ export function register(language: ILanguageExtensionPoint): void {
 	ModesRegistry.registerLanguage(language);
 }
 
+export interface ILanguageDefinition extends ILanguageExtensionPoint {
+	/**
+	 * The grammar used to colorize the language, or a promise or loader of it.
+	 */
+	monarch?: MonarchLanguageSource;
+}
+
+/**
+ * Register a new language together with its Monarch grammar.
+ * Disposing the result removes the grammar, the language information stays registered.
+ */
+export function registerLanguage(language: ILanguageDefinition): IDisposable {
+	const { monarch, ...extensionPoint } = language;
+	register(extensionPoint);
+	if (!monarch) {
+		return Disposable.None;
+	}
+	return setMonarchTokensProvider(language.id, monarch);
+}
+
 /**
  * Get the information of all the registered languages.
  */
@@ -321,12 +346,32 @@ function isThenable<T>(obj: any): obj is Thenable<T> {
 	return false;
 }
 
+/**
+ * A Monarch grammar, a promise of one, or a function loading it the first time the language is needed.
+ */
+export type MonarchLanguageSource =
+	| IMonarchLanguage
+	| Thenable<IMonarchLanguage>
+	| (() => Thenable<IMonarchLanguage>);
+
+/**
+ * The error colorizing rejects with when the grammar of `languageId` could not be loaded.
+ */
+export function languageLoadFailed(languageId: string, err: any): Error {
+	const error = new Error(
+		`Failed to load language '${languageId}': ${getErrorMessage(err)}`
+	);
+	error.name = "LanguageLoadError";
+	(<any>error).languageId = languageId;
+	return error;
+}
+
 /**
  * Set the tokens provider for a language (monarch implementation).
  */
 export function setMonarchTokensProvider(
 	languageId: string,
-	languageDef: IMonarchLanguage | Thenable<IMonarchLanguage>
+	languageDef: MonarchLanguageSource
 ): IDisposable {
 	const create = (languageDef: IMonarchLanguage) => {
 		return createTokenizationSupport(
@@ -336,11 +381,37 @@ export function setMonarchTokensProvider(
 			compile(languageId, languageDef)
 		);
 	};
-	if (isThenable<IMonarchLanguage>(languageDef)) {alert();
+	const registerPromise = (languageDef: Thenable<IMonarchLanguage>) => {
 		return modes.TokenizationRegistry.registerPromise(
 			languageId,
-			languageDef.then(languageDef => create(languageDef))
+			languageDef.then(create).then(undefined, err => {
+				throw languageLoadFailed(languageId, err);
+			})
 		);
+	};
+	if (typeof languageDef === "function") {
+		const loader = languageDef;
+		const load = () =>
+			registerPromise(
+				new Promise<IMonarchLanguage>(resolve => resolve(loader()))
+			);
+		if (StaticServices.modeService.get().isInstantiatedMode(languageId)) {
+			// `onLanguage` fires only once per mode, e.g. not for a language registered again
+			return load();
+		}
+		let registration: IDisposable | null = null;
+		const listener = onLanguage(languageId, () => {
+			registration = load();
+		});
+		return toDisposable(() => {
+			listener.dispose();
+			if (registration) {
+				registration.dispose();
+			}
+		});
+	}
+	if (isThenable<IMonarchLanguage>(languageDef)) {
+		return registerPromise(languageDef);
 	}
 	return modes.TokenizationRegistry.register(languageId, create(languageDef));
 }
@@ -17,11 +17,14 @@ import {
 	IStandaloneThemeData,
 	IStandaloneThemeService
 } from "vs/editor/standalone/common/standaloneThemeService";
+import { generateSemanticCSS } from "vs/editor/standalone/common/semanticClassNames";
 import { hc_black, vs, vs_dark } from "vs/editor/standalone/common/themes";
 import { Registry } from "vs/platform/registry/common/platform";
 import {
 	ColorIdentifier,
 	Extensions,
+	editorBackground,
+	editorForeground,
 	IColorRegistry
 } from "vs/platform/theme/common/colorRegistry";
 import {
@@ -43,54 +46,88 @@ const themingRegistry = Registry.as<IThemingRegistry>(
 );
 
 class StandaloneTheme implements IStandaloneTheme {
-	public readonly id: string;
 	public readonly themeName: string;
 
-	private readonly themeData: IStandaloneThemeData;
+	public readonly themeData: IStandaloneThemeData;
+	private readonly getTheme: (themeName: string) => StandaloneTheme | undefined;
+	private resolvedThemeData: IStandaloneThemeData | null;
 	private colors: { [colorId: string]: Color } | null;
-	private readonly defaultColors: { [colorId: string]: Color | undefined };
+	private defaultColors: { [colorId: string]: Color | undefined };
 	private _tokenTheme: TokenTheme | null;
 
-	constructor(name: string, standaloneThemeData: IStandaloneThemeData) {
+	constructor(
+		name: string,
+		standaloneThemeData: IStandaloneThemeData,
+		getTheme: (themeName: string) => StandaloneTheme | undefined
+	) {
 		this.themeData = standaloneThemeData;
-		let base = standaloneThemeData.base;
-		if (name.length > 0) {
-			this.id = base + " " + name;
-			this.themeName = name;
-		} else {
-			this.id = base;
-			this.themeName = base;
-		}
+		this.themeName = name.length > 0 ? name : standaloneThemeData.base;
+		this.getTheme = getTheme;
+		this.resolvedThemeData = null;
 		this.colors = null;
 		this.defaultColors = Object.create(null);
 		this._tokenTheme = null;
 	}
 
+	public get id(): string {
+		return this.getResolvedThemeData().base + " " + this.themeName;
+	}
+
 	public get base(): string {
 		return this.themeData.base;
 	}
 
 	public notifyBaseUpdated() {
-		if (this.themeData.inherit) {
-			this.colors = null;
-			this._tokenTheme = null;
-		}
+		this.resolvedThemeData = null;
+		this.colors = null;
+		this.defaultColors = Object.create(null);
+		this._tokenTheme = null;
 	}
 
-	private getColors(): { [colorId: string]: Color } {
-		if (!this.colors) {
-			let colors: { [colorId: string]: Color } = Object.create(null);
-			for (let id in this.themeData.colors) {
-				colors[id] = Color.fromHex(this.themeData.colors[id]);
+	public getResolvedThemeData(): IStandaloneThemeData {
+		if (!this.resolvedThemeData) {
+			let baseData: IStandaloneThemeData;
+			const base = this.themeData.base;
+			const baseTheme = this.getTheme(base);
+			if (isBuiltinTheme(base) && (base === this.themeName || !baseTheme)) {
+				// a builtin theme redefined on top of its defaults
+				baseData = getBuiltinRules(base);
+			} else {
+				baseData = baseTheme!.getResolvedThemeData();
 			}
+
+			let rules = this.themeData.rules;
+			let encodedTokensColors = this.themeData.encodedTokensColors;
+			let colors = { ...this.themeData.colors };
 			if (this.themeData.inherit) {
-				let baseData = getBuiltinRules(this.themeData.base);
+				rules = baseData.rules.concat(rules);
+				if (!encodedTokensColors) {
+					encodedTokensColors = baseData.encodedTokensColors;
+				}
 				for (let id in baseData.colors) {
 					if (!colors[id]) {
-						colors[id] = Color.fromHex(baseData.colors[id]);
+						colors[id] = baseData.colors[id];
 					}
 				}
 			}
+			this.resolvedThemeData = {
+				base: baseData.base,
+				inherit: false,
+				rules,
+				encodedTokensColors,
+				colors
+			};
+		}
+		return this.resolvedThemeData;
+	}
+
+	private getColors(): { [colorId: string]: Color } {
+		if (!this.colors) {
+			let colors: { [colorId: string]: Color } = Object.create(null);
+			let resolvedColors = this.getResolvedThemeData().colors;
+			for (let id in resolvedColors) {
+				colors[id] = Color.fromHex(resolvedColors[id]);
+			}
 			this.colors = colors;
 		}
 		return this.colors;
@@ -125,7 +162,7 @@ class StandaloneTheme implements IStandaloneTheme {
 	}
 
 	public get type() {
-		switch (this.base) {
+		switch (this.getResolvedThemeData().base) {
 			case VS_THEME_NAME:
 				return "light";
 			case HC_BLACK_THEME_NAME:
@@ -137,22 +174,10 @@ class StandaloneTheme implements IStandaloneTheme {
 
 	public get tokenTheme(): TokenTheme {
 		if (!this._tokenTheme) {
-			let rules: ITokenThemeRule[] = [];
-			let encodedTokensColors: string[] = [];
-			if (this.themeData.inherit) {
-				let baseData = getBuiltinRules(this.themeData.base);
-				rules = baseData.rules;
-				if (baseData.encodedTokensColors) {
-					encodedTokensColors = baseData.encodedTokensColors;
-				}
-			}
-			rules = rules.concat(this.themeData.rules);
-			if (this.themeData.encodedTokensColors) {
-				encodedTokensColors = this.themeData.encodedTokensColors;
-			}
+			const resolvedThemeData = this.getResolvedThemeData();
 			this._tokenTheme = TokenTheme.createFromRawTokenTheme(
-				rules,
-				encodedTokensColors
+				resolvedThemeData.rules,
+				resolvedThemeData.encodedTokensColors || []
 			);
 		}
 		return this._tokenTheme;
@@ -178,17 +203,28 @@ function getBuiltinRules(builtinTheme: BuiltinTheme): IStandaloneThemeData {
 	}
 }
 
-function newBuiltInTheme(builtinTheme: BuiltinTheme): StandaloneTheme {
+function newBuiltInTheme(
+	builtinTheme: BuiltinTheme,
+	getTheme: (themeName: string) => StandaloneTheme | undefined
+): StandaloneTheme {
 	let themeData = getBuiltinRules(builtinTheme);
-	return new StandaloneTheme(builtinTheme, themeData);
+	return new StandaloneTheme(builtinTheme, themeData, getTheme);
 }
 
 export class StandaloneThemeServiceImpl implements IStandaloneThemeService {
 	_serviceBrand: any;
 
 	private readonly _knownThemes: Map<string, StandaloneTheme>;
-	private readonly _styleElement: HTMLStyleElement;
+	private readonly _getKnownTheme: (
+		themeName: string
+	) => StandaloneTheme | undefined;
+	private readonly _styleElement: HTMLStyleElement | null;
+	private _css: string;
 	private _theme: IStandaloneTheme;
+	/**
+	 * The themes whose CSS is also added scoped under their class name, see `addScopedTheme`.
+	 */
+	private readonly _scopedThemes: string[] = [];
 	private readonly _onThemeChange: Emitter<IStandaloneTheme>;
 	private readonly environment: IEnvironmentService = Object.create(null);
 
@@ -196,20 +232,33 @@ export class StandaloneThemeServiceImpl implements IStandaloneThemeService {
 		this._onThemeChange = new Emitter<IStandaloneTheme>();
 
 		this._knownThemes = new Map<string, StandaloneTheme>();
-		this._knownThemes.set(VS_THEME_NAME, newBuiltInTheme(VS_THEME_NAME));
+		this._getKnownTheme = themeName => this._knownThemes.get(themeName);
+		this._knownThemes.set(
+			VS_THEME_NAME,
+			newBuiltInTheme(VS_THEME_NAME, this._getKnownTheme)
+		);
 		this._knownThemes.set(
 			VS_DARK_THEME_NAME,
-			newBuiltInTheme(VS_DARK_THEME_NAME)
+			newBuiltInTheme(VS_DARK_THEME_NAME, this._getKnownTheme)
 		);
 		this._knownThemes.set(
 			HC_BLACK_THEME_NAME,
-			newBuiltInTheme(HC_BLACK_THEME_NAME)
-		);
-		this._styleElement = document.head.appendChild(
-			document.createElement("style")
+			newBuiltInTheme(HC_BLACK_THEME_NAME, this._getKnownTheme)
 		);
-		this._styleElement.className = "monaco-colors";
+		this._css = "";
+		if (typeof document !== "undefined") {
+			this._styleElement = document.head.appendChild(
+				document.createElement("style")
+			);
+			this._styleElement.className = "monaco-colors";
+		} else {
+			// no DOM (e.g. node.js), the CSS is only kept in memory
+			this._styleElement = null;
+		}
 		this.setTheme(VS_THEME_NAME);
+
+		// participants of modules loaded after the service was created
+		themingRegistry.onThemingParticipantAdded(() => this._updateCSS());
 	}
 
 	public get onThemeChange(): Event<IStandaloneTheme> {
@@ -220,21 +269,21 @@ export class StandaloneThemeServiceImpl implements IStandaloneThemeService {
 		if (!/^[a-z0-9\-]+$/i.test(themeName)) {
 			throw new Error("Illegal theme name!");
 		}
-		if (!isBuiltinTheme(themeData.base) && !isBuiltinTheme(themeName)) {
-			throw new Error("Illegal theme base!");
-		}
+		this._checkBase(themeName, themeData.base);
 		// set or replace theme
-		this._knownThemes.set(themeName, new StandaloneTheme(themeName, themeData));
+		this._knownThemes.set(
+			themeName,
+			new StandaloneTheme(themeName, themeData, this._getKnownTheme)
+		);
 
-		if (isBuiltinTheme(themeName)) {
-			this._knownThemes.forEach(theme => {
-				if (theme.base === themeName) {
-					theme.notifyBaseUpdated();
-				}
-			});
-		}
+		const updated = this._getDerivedThemes(themeName);
+		updated.forEach(theme => theme.notifyBaseUpdated());
 		if (this._theme && this._theme.themeName === themeName) {
 			this.setTheme(themeName); // refresh theme
+		} else if (this._theme && updated.indexOf(this._theme as StandaloneTheme) >= 0) {
+			this._applyTheme(this._theme);
+		} else if (this._scopedThemes.length > 0) {
+			this._updateCSS();
 		}
 	}
 
@@ -242,19 +291,112 @@ export class StandaloneThemeServiceImpl implements IStandaloneThemeService {
 		return this._theme;
 	}
 
-	public setTheme(themeName: string): string {
-		let theme: StandaloneTheme;
+	public getThemeByName(themeName: string): StandaloneTheme {
 		if (this._knownThemes.has(themeName)) {
-			theme = this._knownThemes.get(themeName)!;
-		} else {
-			theme = this._knownThemes.get(VS_THEME_NAME)!;
+			return this._knownThemes.get(themeName)!;
 		}
+		return this._knownThemes.get(VS_THEME_NAME)!;
+	}
+
+	public getThemeCSS(): string {
+		return this._css;
+	}
+
+	public setTheme(themeName: string): string {
+		let theme = this.getThemeByName(themeName);
 		if (this._theme === theme) {
 			// Nothing to do
 			return theme.id;
 		}
+		this._applyTheme(theme);
+
+		return theme.id;
+	}
+
+	private _applyTheme(theme: IStandaloneTheme): void {
 		this._theme = theme;
+		this._updateCSS();
+
+		TokenizationRegistry.setColorMap(theme.tokenTheme.getColorMap());
+		this._onThemeChange.fire(theme);
+	}
+
+	/**
+	 * Themes must be based on a builtin theme or on a defined theme, without going around in circles.
+	 */
+	private _checkBase(themeName: string, base: string): void {
+		let chain = [themeName];
+		while (!(isBuiltinTheme(base) && base === chain[chain.length - 1])) {
+			if (chain.indexOf(base) >= 0) {
+				throw new Error(
+					`Illegal theme base, themes based on each other: ${chain
+						.concat([base])
+						.join(" > ")}`
+				);
+			}
+			const baseTheme = this._knownThemes.get(base);
+			if (!baseTheme) {
+				if (isBuiltinTheme(base)) {
+					return;
+				}
+				throw new Error("Illegal theme base!");
+			}
+			chain.push(base);
+			base = baseTheme.base;
+		}
+	}
+
+	/**
+	 * The themes based on theme `themeName`, directly or through other themes.
+	 */
+	private _getDerivedThemes(themeName: string): StandaloneTheme[] {
+		let result: StandaloneTheme[] = [];
+		let bases = [themeName];
+		while (bases.length > 0) {
+			const base = bases.shift()!;
+			this._knownThemes.forEach((theme, name) => {
+				if (theme.base === base && name !== base && result.indexOf(theme) < 0) {
+					result.push(theme);
+					bases.push(name);
+				}
+			});
+		}
+		return result;
+	}
 
+	public addScopedTheme(themeName: string): string {
+		const theme = this.getThemeByName(themeName);
+		if (this._scopedThemes.indexOf(theme.themeName) < 0) {
+			this._scopedThemes.push(theme.themeName);
+			this._updateCSS();
+		}
+		return theme.themeName;
+	}
+
+	private _updateCSS(): void {
+		let css = [this._generateCSS(this._theme)];
+		for (const themeName of this._scopedThemes) {
+			const theme = this.getThemeByName(themeName);
+			const scope = "." + themeName;
+			let rules = [_scopeCSS(this._generateCSS(theme), scope)];
+			const background = theme.getColor(editorBackground);
+			if (background) {
+				rules.unshift(`${scope} { background-color: ${background}; }`);
+			}
+			const foreground = theme.getColor(editorForeground);
+			if (foreground) {
+				rules.unshift(`${scope} { color: ${foreground}; }`);
+			}
+			css.push(rules.join("\n"));
+		}
+
+		this._css = css.join("\n");
+		if (this._styleElement) {
+			this._styleElement.innerHTML = this._css;
+		}
+	}
+
+	private _generateCSS(theme: IStandaloneTheme): string {
 		let cssRules: string[] = [];
 		let hasRule: { [rule: string]: boolean } = {};
 		let ruleCollector: ICssStyleCollector = {
@@ -272,13 +414,54 @@ export class StandaloneThemeServiceImpl implements IStandaloneThemeService {
 		let tokenTheme = theme.tokenTheme;
 		let colorMap = tokenTheme.getColorMap();
 		ruleCollector.addRule(generateTokensCSSForColorMap(colorMap));
+		ruleCollector.addRule(generateSemanticCSS(tokenTheme));
 
-		this._styleElement.innerHTML = cssRules.join("\n");
-
-		TokenizationRegistry.setColorMap(colorMap);
-		this._onThemeChange.fire(theme);
+		return cssRules.join("\n");
+	}
+}
 
-		return theme.id;
+/**
+ * Put `scope` in front of every selector of `css`, e.g. `.mtk1, .mtln { ... }` becomes
+ * `.vs-dark .mtk1, .vs-dark .mtln { ... }`. The rules inside `@media` and `@supports` are scoped
+ * as well, other at-rules like `@font-face` are left alone.
+ */
+function _scopeCSS(css: string, scope: string): string {
+	let result = "";
+	let index = 0;
+	while (index < css.length) {
+		const open = css.indexOf("{", index);
+		const close = open < 0 ? -1 : _findClosingBrace(css, open);
+		if (close < 0) {
+			break;
+		}
+		const [, space, prelude] = /^(\s*)([\s\S]*?)\s*$/.exec(
+			css.substring(index, open)
+		)!;
+		const body = css.substring(open + 1, close);
+		if (prelude.charAt(0) !== "@") {
+			const scoped = prelude
+				.split(",")
+				.map(selector => `${scope} ${selector.trim()}`)
+				.join(", ");
+			result += `${space}${scoped} {${body}}`;
+		} else if (/^@(media|supports)\b/i.test(prelude)) {
+			result += `${space}${prelude} {${_scopeCSS(body, scope)}}`;
+		} else {
+			result += `${space}${prelude} {${body}}`;
+		}
+		index = close + 1;
 	}
+	return result + css.substr(index);
+}
 
+function _findClosingBrace(css: string, open: number): number {
+	let depth = 0;
+	for (let i = open; i < css.length; i++) {
+		if (css.charAt(i) === "{") {
+			depth++;
+		} else if (css.charAt(i) === "}" && --depth === 0) {
+			return i;
+		}
+	}
+	return -1;
 }
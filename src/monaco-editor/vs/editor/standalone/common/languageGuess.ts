@@ -0,0 +1,187 @@
+import { CharCode } from 'vs/base/common/charCode';
+import { ITokenizationSupport } from 'vs/editor/common/modes';
+
+export interface ILanguageGuess {
+	readonly languageId: string;
+	/**
+	 * Between 0 and 1.
+	 */
+	readonly confidence: number;
+}
+
+export interface ILanguageGuessCandidate {
+	readonly languageId: string;
+	readonly tokenizationSupport: ITokenizationSupport;
+}
+
+/**
+ * Only the start of the text is tokenized when guessing.
+ */
+export const GUESS_SAMPLE_LINES = 100;
+const GUESS_SAMPLE_LINE_LENGTH = 500;
+
+/**
+ * Recognized tokens count with at most this many characters, so a grammar
+ * that swallows whole lines into a single string or comment does not win.
+ */
+const RECOGNIZED_TOKEN_LENGTH = 4;
+
+const WORD = /^[A-Za-z_$@#][\w$-]*$/;
+
+/**
+ * Plain prose: how well a grammar seems to understand it is subtracted from its scores,
+ * so grammars that find keywords in any text do not win every guess.
+ */
+const REFERENCE_TEXT = [
+	'Hey everyone, I have a question about my setup.',
+	'It does not work after the update, any ideas? Thanks in advance!',
+	'I tried to reinstall it (twice) and checked the logs, but nothing helps.'
+];
+const REFERENCE_WEIGHT = 0.5;
+
+interface ITokenizationStats {
+	characters: number;
+	defaultCharacters: number;
+	invalidCharacters: number;
+	recognizedCharacters: number;
+	words: number;
+	/**
+	 * Words tokenized as keywords, tags, strings, etc.
+	 */
+	specialWords: string[];
+}
+
+export function getGuessSample(lines: string[]): string[] {
+	return lines.slice(0, GUESS_SAMPLE_LINES).map(line => line.substr(0, GUESS_SAMPLE_LINE_LENGTH));
+}
+
+/**
+ * Rank `candidates` by how well their tokenizers understand `lines`, best first.
+ * Words that only few of the candidates tokenize as keywords (or tags, strings, ...) count for a language,
+ * so do short tokens it recognizes. `invalid` tokens and text left in the default token count against it.
+ */
+export function guessLanguages(lines: string[], candidates: ILanguageGuessCandidate[]): ILanguageGuess[] {
+	const scores = _score(lines, candidates);
+	const referenceScores = _score(REFERENCE_TEXT, candidates);
+
+	let result = candidates.map((candidate, index) => {
+		const confidence = scores[index] - REFERENCE_WEIGHT * referenceScores[index];
+		return { languageId: candidate.languageId, confidence: Math.max(0, Math.min(1, confidence)), index };
+	});
+	result.sort((a, b) => b.confidence - a.confidence || a.index - b.index);
+	return result.map(guess => ({ languageId: guess.languageId, confidence: guess.confidence }));
+}
+
+function _score(lines: string[], candidates: ILanguageGuessCandidate[]): number[] {
+	let allStats: (ITokenizationStats | null)[] = [];
+	let documentFrequency = new Map<string, number>();
+	for (const candidate of candidates) {
+		let stats: ITokenizationStats | null = null;
+		try {
+			stats = _collectStats(lines, candidate.tokenizationSupport);
+		} catch (err) {
+			// a tokenizer that gets stuck does not understand the text either
+		}
+		allStats.push(stats);
+		if (stats) {
+			const specialWords = stats.specialWords;
+			for (const word of specialWords.filter((word, index) => specialWords.indexOf(word) === index)) {
+				documentFrequency.set(word, (documentFrequency.get(word) || 0) + 1);
+			}
+		}
+	}
+
+	// the fewer candidates a word is special to, the more it tells
+	const weight = (word: string) => candidates.length > 1 ? Math.log(candidates.length / documentFrequency.get(word)!) / Math.log(candidates.length) : 1;
+
+	return candidates.map((candidate, index) => {
+		const stats = allStats[index];
+		let score = 0;
+		if (stats && stats.characters > 0) {
+			let specialWordScore = 0;
+			for (const word of stats.specialWords) {
+				specialWordScore += weight(word);
+			}
+			score = (
+				2 * (stats.words > 0 ? specialWordScore / stats.words : 0)
+				+ stats.recognizedCharacters / stats.characters
+				- stats.defaultCharacters / stats.characters
+				- 2 * stats.invalidCharacters / stats.characters
+			);
+		}
+		return score;
+	});
+}
+
+function _collectStats(lines: string[], tokenizationSupport: ITokenizationSupport): ITokenizationStats {
+	let stats: ITokenizationStats = {
+		characters: 0,
+		defaultCharacters: 0,
+		invalidCharacters: 0,
+		recognizedCharacters: 0,
+		words: 0,
+		specialWords: []
+	};
+	let typedWords: { type: string; word: string; }[] = [];
+
+	let state = tokenizationSupport.getInitialState();
+	for (const line of lines) {
+		const result = tokenizationSupport.tokenize(line, state, 0);
+		state = result.endState;
+		for (let i = 0; i < result.tokens.length; i++) {
+			const token = result.tokens[i];
+			const end = i + 1 < result.tokens.length ? result.tokens[i + 1].offset : line.length;
+			const length = _countNonWhitespace(line, token.offset, end);
+			if (length === 0) {
+				continue;
+			}
+			stats.characters += length;
+
+			const type = token.type.split('.')[0];
+			const text = line.substring(token.offset, end);
+			if (type === 'invalid') {
+				stats.invalidCharacters += length;
+			} else if (WORD.test(text)) {
+				stats.words++;
+				if (type !== '' && type !== 'source' && type !== 'identifier') {
+					typedWords.push({ type, word: text });
+				}
+			} else if (type === '' || type === 'source' || type === 'keyword') {
+				// some grammars mark whole lines as keywords
+				stats.defaultCharacters += length;
+			} else if (type !== 'identifier') {
+				stats.recognizedCharacters += Math.min(length, RECOGNIZED_TOKEN_LENGTH);
+			}
+		}
+	}
+
+	// some grammars give every word a type, the most common one besides keywords means identifier
+	let typeCounts = new Map<string, number>();
+	let identifierType: string | null = null;
+	for (const { type } of typedWords) {
+		if (type !== 'keyword') {
+			const count = (typeCounts.get(type) || 0) + 1;
+			typeCounts.set(type, count);
+			if (!identifierType || count > typeCounts.get(identifierType)!) {
+				identifierType = type;
+			}
+		}
+	}
+	for (const { type, word } of typedWords) {
+		if (type !== identifierType) {
+			stats.specialWords.push(word);
+		}
+	}
+	return stats;
+}
+
+function _countNonWhitespace(line: string, start: number, end: number): number {
+	let result = 0;
+	for (let i = start; i < end; i++) {
+		const ch = line.charCodeAt(i);
+		if (ch !== CharCode.Space && ch !== CharCode.Tab) {
+			result++;
+		}
+	}
+	return result;
+}
@@ -0,0 +1,268 @@
+export const enum DiffLineType {
+	Context = 0,
+	Inserted = 1,
+	Removed = 2,
+	/**
+	 * A `@@ -1,3 +1,4 @@` hunk header of a unified diff.
+	 */
+	Hunk = 3
+}
+
+export interface IDiffLine {
+	readonly type: DiffLineType;
+	readonly content: string;
+	/**
+	 * 1-based, 0 if the line does not exist in the original text.
+	 */
+	readonly originalLineNumber: number;
+	/**
+	 * 1-based, 0 if the line does not exist in the modified text.
+	 */
+	readonly modifiedLineNumber: number;
+}
+
+/**
+ * Above this many edits the remaining lines are reported as removed and inserted as a whole.
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse the hunks of a unified diff, file headers and other lines outside of hunks are skipped.
+ */
+export function parseUnifiedDiff(text: string): IDiffLine[] {
+	let result: IDiffLine[] = [];
+	let originalLineNumber = 0;
+	let modifiedLineNumber = 0;
+	let originalRemaining = 0;
+	let modifiedRemaining = 0;
+
+	for (const line of text.split(/\r\n|\r|\n/)) {
+		const hunk = HUNK_HEADER.exec(line);
+		if (hunk) {
+			originalLineNumber = parseInt(hunk[1], 10);
+			originalRemaining = hunk[2] !== undefined ? parseInt(hunk[2], 10) : 1;
+			modifiedLineNumber = parseInt(hunk[3], 10);
+			modifiedRemaining = hunk[4] !== undefined ? parseInt(hunk[4], 10) : 1;
+			result.push({
+				type: DiffLineType.Hunk,
+				content: line,
+				originalLineNumber: 0,
+				modifiedLineNumber: 0
+			});
+			continue;
+		}
+		if (originalRemaining <= 0 && modifiedRemaining <= 0) {
+			continue;
+		}
+
+		const marker = line.charAt(0);
+		const content = line.substr(1);
+		if (marker === "+") {
+			result.push({
+				type: DiffLineType.Inserted,
+				content,
+				originalLineNumber: 0,
+				modifiedLineNumber: modifiedLineNumber++
+			});
+			modifiedRemaining--;
+		} else if (marker === "-") {
+			result.push({
+				type: DiffLineType.Removed,
+				content,
+				originalLineNumber: originalLineNumber++,
+				modifiedLineNumber: 0
+			});
+			originalRemaining--;
+		} else if (marker === " " || line.length === 0) {
+			// some tools strip the trailing space of empty context lines
+			result.push({
+				type: DiffLineType.Context,
+				content,
+				originalLineNumber: originalLineNumber++,
+				modifiedLineNumber: modifiedLineNumber++
+			});
+			originalRemaining--;
+			modifiedRemaining--;
+		} else if (marker !== "\\") {
+			// not part of the hunk, `\ No newline at end of file` is skipped silently
+			originalRemaining = 0;
+			modifiedRemaining = 0;
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Compute the line diff of two texts (Myers' O(ND) algorithm).
+ */
+export function computeLineDiff(
+	original: string[],
+	modified: string[]
+): IDiffLine[] {
+	let start = 0;
+	while (
+		start < original.length &&
+		start < modified.length &&
+		original[start] === modified[start]
+	) {
+		start++;
+	}
+	let originalEnd = original.length;
+	let modifiedEnd = modified.length;
+	while (
+		originalEnd > start &&
+		modifiedEnd > start &&
+		original[originalEnd - 1] === modified[modifiedEnd - 1]
+	) {
+		originalEnd--;
+		modifiedEnd--;
+	}
+
+	let result: IDiffLine[] = [];
+	const pushContext = (originalIndex: number, modifiedIndex: number) => {
+		result.push({
+			type: DiffLineType.Context,
+			content: modified[modifiedIndex],
+			originalLineNumber: originalIndex + 1,
+			modifiedLineNumber: modifiedIndex + 1
+		});
+	};
+	for (let i = 0; i < start; i++) {
+		pushContext(i, i);
+	}
+	_diffRange(
+		original,
+		start,
+		originalEnd,
+		modified,
+		start,
+		modifiedEnd,
+		result
+	);
+	for (let i = originalEnd, j = modifiedEnd; i < original.length; i++, j++) {
+		pushContext(i, j);
+	}
+	return result;
+}
+
+function _diffRange(
+	original: string[],
+	originalStart: number,
+	originalEnd: number,
+	modified: string[],
+	modifiedStart: number,
+	modifiedEnd: number,
+	result: IDiffLine[]
+): void {
+	const n = originalEnd - originalStart;
+	const m = modifiedEnd - modifiedStart;
+	const maxD = Math.min(n + m, MAX_EDIT_DISTANCE);
+
+	// trace[d] holds the furthest x of every diagonal k in [-d, d] after d edits
+	let trace: Int32Array[] = [];
+	let v = new Int32Array(2 * maxD + 3);
+	const offset = maxD + 1;
+	let found = -1;
+
+	for (let d = 0; d <= maxD && found < 0; d++) {
+		for (let k = -d; k <= d; k += 2) {
+			let x =
+				k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+					? v[offset + k + 1]
+					: v[offset + k - 1] + 1;
+			let y = x - k;
+			while (
+				x < n &&
+				y < m &&
+				original[originalStart + x] === modified[modifiedStart + y]
+			) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+			if (x >= n && y >= m) {
+				found = d;
+			}
+		}
+		trace.push(v.slice(offset - d, offset + d + 1));
+	}
+
+	if (found < 0) {
+		// too many differences, give up on aligning this range
+		for (let i = originalStart; i < originalEnd; i++) {
+			result.push({
+				type: DiffLineType.Removed,
+				content: original[i],
+				originalLineNumber: i + 1,
+				modifiedLineNumber: 0
+			});
+		}
+		for (let j = modifiedStart; j < modifiedEnd; j++) {
+			result.push({
+				type: DiffLineType.Inserted,
+				content: modified[j],
+				originalLineNumber: 0,
+				modifiedLineNumber: j + 1
+			});
+		}
+		return;
+	}
+
+	// walk back from the end, collecting the lines in reverse
+	let reversed: IDiffLine[] = [];
+	let x = n;
+	let y = m;
+	for (let d = found; d > 0; d--) {
+		const previous = trace[d - 1];
+		const get = (k: number) => previous[k + d - 1];
+		const k = x - y;
+		const previousK =
+			k === -d || (k !== d && get(k - 1) < get(k + 1)) ? k + 1 : k - 1;
+		const previousX = get(previousK);
+		const previousY = previousX - previousK;
+		while (x > previousX && y > previousY) {
+			x--;
+			y--;
+			reversed.push({
+				type: DiffLineType.Context,
+				content: modified[modifiedStart + y],
+				originalLineNumber: originalStart + x + 1,
+				modifiedLineNumber: modifiedStart + y + 1
+			});
+		}
+		if (previousK === k + 1) {
+			reversed.push({
+				type: DiffLineType.Inserted,
+				content: modified[modifiedStart + previousY],
+				originalLineNumber: 0,
+				modifiedLineNumber: modifiedStart + previousY + 1
+			});
+		} else {
+			reversed.push({
+				type: DiffLineType.Removed,
+				content: original[originalStart + previousX],
+				originalLineNumber: originalStart + previousX + 1,
+				modifiedLineNumber: 0
+			});
+		}
+		x = previousX;
+		y = previousY;
+	}
+	while (x > 0 && y > 0) {
+		x--;
+		y--;
+		reversed.push({
+			type: DiffLineType.Context,
+			content: modified[modifiedStart + y],
+			originalLineNumber: originalStart + x + 1,
+			modifiedLineNumber: modifiedStart + y + 1
+		});
+	}
+
+	for (let i = reversed.length - 1; i >= 0; i--) {
+		result.push(reversed[i]);
+	}
+}
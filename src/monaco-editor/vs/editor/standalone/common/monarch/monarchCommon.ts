@@ -69,6 +69,10 @@ export interface IRule {
 	action: FuzzyAction;
 	matchOnlyAtLineStart: boolean;
 	name: string;
+	// where the rule is written in the definition, e.g. 'tokenizer.common[3]' for a rule included into 'root'
+	path: string;
+	// the states included to get to the rule, e.g. ['common'] or ['common', 'whitespace']
+	includes: string[];
 }
 
 export interface IAction {
@@ -77,6 +81,8 @@ export interface IAction {
 
 	// or a function that returns a fresh action
 	test?: (id: string, matches: string[], state: string, eos: boolean) => FuzzyAction;
+	// the branches 'test' picks from, for 'cases' actions
+	branches?: IBranch[];
 
 	// or it is a declarative action with a token value and various other attributes
 	token?: string;
@@ -94,6 +100,7 @@ export interface IBranch {
 	name: string;
 	value: FuzzyAction;
 	test?: (id: string, matches: string[], state: string, eos: boolean) => boolean;
+	path: string;
 }
 
 // Small helper functions
@@ -193,6 +200,18 @@ export function findRules(lexer: ILexer, inState: string): IRule[] | null {
 	return null;
 }
 
+/**
+ * The first of the 'cases' branches that matches, or null if the default token applies.
+ */
+export function findBranch(branches: IBranch[], id: string, matches: string[], state: string, eos: boolean): IBranch | null {
+	for (const branch of branches) {
+		if (!branch.test || branch.test(id, matches, state, eos)) {
+			return branch;
+		}
+	}
+	return null;
+}
+
 /**
  * Is a certain state defined? In contrast to 'findRules' this works on a ILexerMin.
  * This is used during compilation where we may know the defined states
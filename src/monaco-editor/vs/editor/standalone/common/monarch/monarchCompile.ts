@@ -11,6 +11,7 @@
 import * as objects from 'vs/base/common/objects';
 import * as monarchCommon from 'vs/editor/standalone/common/monarch/monarchCommon';
 import { IMonarchLanguage, IMonarchLanguageBracket } from 'vs/editor/standalone/common/monarch/monarchTypes';
+import { joinPath, monarchCompileError, validateMonarch } from 'vs/editor/standalone/common/monarch/monarchValidate';
 
 /*
  * Type helpers
@@ -105,7 +106,7 @@ function selectScrutinee(id: string, matches: string[], state: string, num: numb
 	return null;
 }
 
-function createGuard(lexer: monarchCommon.ILexerMin, ruleName: string, tkey: string, val: monarchCommon.FuzzyAction): monarchCommon.IBranch {
+function createGuard(lexer: monarchCommon.ILexerMin, ruleName: string, tkey: string, val: monarchCommon.FuzzyAction, path: string): monarchCommon.IBranch {
 	// get the scrutinee and pattern
 	let scrut = -1; // -1: $!, 0-99: $n, 100+n: $Sn
 	let oppat = tkey;
@@ -186,14 +187,14 @@ function createGuard(lexer: monarchCommon.ILexerMin, ruleName: string, tkey: str
 	// return the branch object
 	if (scrut === -1) {
 		return {
-			name: tkey, value: val, test: function (id, matches, state, eos) {
+			name: tkey, value: val, path, test: function (id, matches, state, eos) {
 				return tester(id, id, matches, state, eos);
 			}
 		};
 	}
 	else {
 		return {
-			name: tkey, value: val, test: function (id, matches, state, eos) {
+			name: tkey, value: val, path, test: function (id, matches, state, eos) {
 				let scrutinee = selectScrutinee(id, matches, state, scrut);
 				return tester(!scrutinee ? '' : scrutinee, id, matches, state, eos);
 			}
@@ -209,7 +210,7 @@ function createGuard(lexer: monarchCommon.ILexerMin, ruleName: string, tkey: str
  * contains user functions as actions (which is usually not allowed), then this
  * may be called during lexing. It is important therefore to compile common cases efficiently
  */
-function compileAction(lexer: monarchCommon.ILexerMin, ruleName: string, action: any): monarchCommon.FuzzyAction {
+function compileAction(lexer: monarchCommon.ILexerMin, ruleName: string, action: any, path: string): monarchCommon.FuzzyAction {
 	if (!action) {
 		return { token: '' };
 	}
@@ -274,7 +275,7 @@ function compileAction(lexer: monarchCommon.ILexerMin, ruleName: string, action:
 		let results: monarchCommon.FuzzyAction[] = [];
 		for (let idx in action) {
 			if (action.hasOwnProperty(idx)) {
-				results[idx] = compileAction(lexer, ruleName, action[idx]);
+				results[idx] = compileAction(lexer, ruleName, action[idx], path + '[' + idx + ']');
 			}
 		}
 		return { group: results };
@@ -286,17 +287,18 @@ function compileAction(lexer: monarchCommon.ILexerMin, ruleName: string, action:
 		// for each case, push a test function and result value
 		for (let tkey in action.cases) {
 			if (action.cases.hasOwnProperty(tkey)) {
-				const val = compileAction(lexer, ruleName, action.cases[tkey]);
+				const casePath = joinPath(path + '.cases', tkey);
+				const val = compileAction(lexer, ruleName, action.cases[tkey], casePath);
 
 				// what kind of case
 				if (tkey === '@default' || tkey === '@' || tkey === '') {
-					cases.push({ test: undefined, value: val, name: tkey });
+					cases.push({ test: undefined, value: val, name: tkey, path: casePath });
 				}
 				else if (tkey === '@eos') {
-					cases.push({ test: function (id, matches, state, eos) { return eos; }, value: val, name: tkey });
+					cases.push({ test: function (id, matches, state, eos) { return eos; }, value: val, name: tkey, path: casePath });
 				}
 				else {
-					cases.push(createGuard(lexer, ruleName, tkey, val));  // call separate function to avoid local variable capture
+					cases.push(createGuard(lexer, ruleName, tkey, val, casePath));  // call separate function to avoid local variable capture
 				}
 			}
 		}
@@ -304,17 +306,10 @@ function compileAction(lexer: monarchCommon.ILexerMin, ruleName: string, action:
 		// create a matching function
 		const def = lexer.defaultToken;
 		return {
+			branches: cases,
 			test: function (id, matches, state, eos) {
-				for (let idx in cases) {
-					if (cases.hasOwnProperty(idx)) {
-						const _case = cases[idx];
-						const didmatch = (!_case.test || _case.test(id, matches, state, eos));
-						if (didmatch) {
-							return _case.value;
-						}
-					}
-				}
-				return def;
+				const branch = monarchCommon.findBranch(cases, id, matches, state, eos);
+				return branch ? branch.value : def;
 			}
 		};
 	}
@@ -331,9 +326,13 @@ class Rule implements monarchCommon.IRule {
 	public action: monarchCommon.FuzzyAction = { token: '' };
 	public matchOnlyAtLineStart: boolean = false;
 	public name: string = '';
+	public path: string;
+	public includes: string[];
 
-	constructor(name: string) {
+	constructor(name: string, path: string, includes: string[]) {
 		this.name = name;
+		this.path = path;
+		this.includes = includes;
 	}
 
 	public setRegex(lexer: monarchCommon.ILexerMin, re: string | RegExp): void {
@@ -353,8 +352,8 @@ class Rule implements monarchCommon.IRule {
 		this.regex = compileRegExp(lexer, '^(?:' + (this.matchOnlyAtLineStart ? sregex.substr(1) : sregex) + ')');
 	}
 
-	public setAction(lexer: monarchCommon.ILexerMin, act: monarchCommon.IAction) {
-		this.action = compileAction(lexer, this.name, act);
+	public setAction(lexer: monarchCommon.ILexerMin, act: monarchCommon.IAction, path: string) {
+		this.action = compileAction(lexer, this.name, act, path);
 	}
 }
 
@@ -368,6 +367,19 @@ class Rule implements monarchCommon.IRule {
  * jsonStrict to true).
  */
 export function compile(languageId: string, json: IMonarchLanguage): monarchCommon.ILexer {
+	try {
+		return compileLexer(languageId, json);
+	} catch (err) {
+		// only a definition that does not compile is validated, to report all of its errors at once
+		const errors = (json && typeof (json) === 'object' ? validateMonarch(json) : []).filter(diagnostic => diagnostic.severity === 'error');
+		if (errors.length > 0) {
+			throw monarchCompileError(languageId, errors);
+		}
+		throw err;
+	}
+}
+
+function compileLexer(languageId: string, json: IMonarchLanguage): monarchCommon.ILexer {
 	if (!json || typeof (json) !== 'object') {
 		throw new Error('Monarch: expecting a language definition object');
 	}
@@ -387,8 +399,8 @@ export function compile(languageId: string, json: IMonarchLanguage): monarchComm
 
 	lexer.usesEmbedded = false; // becomes true if we find a nextEmbedded action
 
-	// For calling compileAction later on
-	let lexerMin: monarchCommon.ILexerMin = <any>json;
+	// For calling compileAction later on, the attributes are looked up through the prototype
+	let lexerMin: monarchCommon.ILexerMin = Object.create(json);
 	lexerMin.languageId = languageId;
 	lexerMin.ignoreCase = lexer.ignoreCase;
 	lexerMin.noThrow = lexer.noThrow;
@@ -398,10 +410,12 @@ export function compile(languageId: string, json: IMonarchLanguage): monarchComm
 
 
 	// Compile an array of rules into newrules where RegExp objects are created.
-	function addRules(state: string, newrules: monarchCommon.IRule[], rules: any[]) {
+	// 'path' is where 'rules' are written, 'includes' the states included to get to them
+	function addRules(state: string, newrules: monarchCommon.IRule[], rules: any[], path: string, includes: string[]) {
 		for (let idx in rules) {
 			if (rules.hasOwnProperty(idx)) {
 				const rule = rules[idx];
+				const rulePath = path + '[' + idx + ']';
 				let include = rule.include;
 				if (include) {
 					if (typeof (include) !== 'string') {
@@ -413,10 +427,10 @@ export function compile(languageId: string, json: IMonarchLanguage): monarchComm
 					if (!json.tokenizer[include]) {
 						throw monarchCommon.createError(lexer, 'include target \'' + include + '\' is not defined at: ' + state);
 					}
-					addRules(state + '.' + include, newrules, json.tokenizer[include]);
+					addRules(state + '.' + include, newrules, json.tokenizer[include], joinPath('tokenizer', include), includes.concat([include]));
 				}
 				else {
-					const newrule = new Rule(state);
+					const newrule = new Rule(state, rulePath, includes);
 
 
 					// Set up new rule attributes
@@ -424,19 +438,19 @@ export function compile(languageId: string, json: IMonarchLanguage): monarchComm
 						newrule.setRegex(lexerMin, rule[0]);
 						if (rule.length >= 3) {
 							if (typeof (rule[1]) === 'string') {
-								newrule.setAction(lexerMin, { token: rule[1], next: rule[2] });
+								newrule.setAction(lexerMin, { token: rule[1], next: rule[2] }, rulePath + '[1]');
 							}
 							else if (typeof (rule[1]) === 'object') {
 								const rule1 = rule[1];
 								rule1.next = rule[2];
-								newrule.setAction(lexerMin, rule1);
+								newrule.setAction(lexerMin, rule1, rulePath + '[1]');
 							}
 							else {
 								throw monarchCommon.createError(lexer, 'a next state as the last element of a rule can only be given if the action is either an object or a string, at: ' + state);
 							}
 						}
 						else {
-							newrule.setAction(lexerMin, rule[1]);
+							newrule.setAction(lexerMin, rule[1], rulePath + '[1]');
 						}
 					}
 					else {
@@ -452,7 +466,7 @@ export function compile(languageId: string, json: IMonarchLanguage): monarchComm
 							newrule.matchOnlyAtLineStart = bool(rule.matchOnlyAtLineStart, false);
 						}
 						newrule.setRegex(lexerMin, rule.regex);
-						newrule.setAction(lexerMin, rule.action);
+						newrule.setAction(lexerMin, rule.action, rulePath + '.action');
 					}
 
 					newrules.push(newrule);
@@ -475,7 +489,7 @@ export function compile(languageId: string, json: IMonarchLanguage): monarchComm
 
 			const rules = json.tokenizer[key];
 			lexer.tokenizer[key] = new Array();
-			addRules('tokenizer.' + key, lexer.tokenizer[key], rules);
+			addRules('tokenizer.' + key, lexer.tokenizer[key], rules, joinPath('tokenizer', key), []);
 		}
 	}
 	lexer.usesEmbedded = lexerMin.usesEmbedded;  // can be set during compileAction
@@ -0,0 +1,129 @@
+/*
+ * Counts how often the states, rules and 'cases' branches of a compiled lexer are used,
+ * filled in by 'MonarchTokenizer.measureCoverage'.
+ */
+
+import * as monarchCommon from 'vs/editor/standalone/common/monarch/monarchCommon';
+import { joinPath } from 'vs/editor/standalone/common/monarch/monarchValidate';
+
+export interface IMonarchCoverageEntry {
+	/**
+	 * Where the state, rule or branch is written in the definition, e.g. `tokenizer.root[3]`.
+	 */
+	path: string;
+	hits: number;
+}
+
+export interface IMonarchCoverageReport {
+	languageId: string;
+	/**
+	 * How many tokens were matched in every state.
+	 */
+	states: IMonarchCoverageEntry[];
+	/**
+	 * How often every rule matched, rules included into several states are counted together.
+	 */
+	rules: IMonarchCoverageEntry[];
+	/**
+	 * How often every `cases` branch was taken.
+	 */
+	branches: IMonarchCoverageEntry[];
+	/**
+	 * The states never entered and never included into a state where one of their rules matched.
+	 */
+	unusedStates: string[];
+	unmatchedRules: string[];
+	untakenBranches: string[];
+}
+
+export class MonarchCoverage {
+
+	private readonly _lexer: monarchCommon.ILexer;
+	private readonly _stateHits = new Map<monarchCommon.IRule[], number>();
+	private readonly _ruleHits = new Map<string, number>();
+	private readonly _includeHits = new Map<string, number>();
+	private readonly _branchHits = new Map<string, number>();
+
+	constructor(lexer: monarchCommon.ILexer) {
+		this._lexer = lexer;
+	}
+
+	public hitState(rules: monarchCommon.IRule[]): void {
+		this._stateHits.set(rules, (this._stateHits.get(rules) || 0) + 1);
+	}
+
+	public hitRule(rule: monarchCommon.IRule): void {
+		this._ruleHits.set(rule.path, (this._ruleHits.get(rule.path) || 0) + 1);
+		for (const state of rule.includes) {
+			this._includeHits.set(state, (this._includeHits.get(state) || 0) + 1);
+		}
+	}
+
+	public hitBranch(branch: monarchCommon.IBranch): void {
+		this._branchHits.set(branch.path, (this._branchHits.get(branch.path) || 0) + 1);
+	}
+
+	public getReport(): IMonarchCoverageReport {
+		let states: IMonarchCoverageEntry[] = [];
+		let unusedStates: string[] = [];
+		let rules: IMonarchCoverageEntry[] = [];
+		let branches: IMonarchCoverageEntry[] = [];
+		let seen = new Set<string>();
+		const add = (entries: IMonarchCoverageEntry[], path: string, hits: number) => {
+			if (!seen.has(path)) {
+				seen.add(path);
+				entries.push({ path, hits });
+			}
+		};
+		const addBranches = (action: monarchCommon.FuzzyAction | monarchCommon.FuzzyAction[]) => {
+			if (Array.isArray(action)) {
+				action.forEach(addBranches);
+			} else if (monarchCommon.isIAction(action)) {
+				if (action.group) {
+					action.group.forEach(addBranches);
+				}
+				if (action.branches) {
+					for (const branch of action.branches) {
+						add(branches, branch.path, this._branchHits.get(branch.path) || 0);
+						addBranches(branch.value);
+					}
+				}
+			}
+		};
+
+		for (const state of Object.keys(this._lexer.tokenizer)) {
+			const stateRules = this._lexer.tokenizer[state];
+			const statePath = joinPath('tokenizer', state);
+			add(states, statePath, this._stateHits.get(stateRules) || 0);
+			if (!this._stateHits.has(stateRules) && !this._includeHits.has(state)) {
+				unusedStates.push(statePath);
+			}
+			for (const rule of stateRules) {
+				add(rules, rule.path, this._ruleHits.get(rule.path) || 0);
+				addBranches(rule.action);
+			}
+		}
+
+		// in the order they are written, included rules would otherwise show up in the states including them
+		const statePaths = states.map(state => state.path);
+		const position = (rule: IMonarchCoverageEntry) => {
+			const index = rule.path.lastIndexOf('[');
+			return [statePaths.indexOf(rule.path.substr(0, index)), parseInt(rule.path.substr(index + 1), 10)];
+		};
+		rules.sort((a, b) => {
+			const [stateA, indexA] = position(a);
+			const [stateB, indexB] = position(b);
+			return stateA - stateB || indexA - indexB;
+		});
+
+		return {
+			languageId: this._lexer.languageId,
+			states,
+			rules,
+			branches,
+			unusedStates,
+			unmatchedRules: rules.filter(rule => rule.hits === 0).map(rule => rule.path),
+			untakenBranches: branches.filter(branch => branch.hits === 0).map(branch => branch.path)
+		};
+	}
+}
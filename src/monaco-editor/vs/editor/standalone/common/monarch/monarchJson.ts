@@ -0,0 +1,95 @@
+import { IMonarchLanguage } from 'vs/editor/standalone/common/monarch/monarchTypes';
+
+/*
+ * A JSON format for Monarch language definitions:
+ * regular expressions are written as `{ "$regex": "[a-z]+", "flags": "i" }`, and objects or arrays
+ * that occur more than once are written out the first time only, afterwards as
+ * `{ "$ref": "#/keywords" }`, a JSON pointer to the first occurrence.
+ */
+
+const REGEX_KEY = '$regex';
+const FLAGS_KEY = 'flags';
+const REF_KEY = '$ref';
+const ROOT_PATH = '#';
+
+/**
+ * Serialize `language` to JSON that `parseMonarch` turns back into the same definition.
+ */
+export function serializeMonarch(language: IMonarchLanguage, space?: string | number): string {
+	return JSON.stringify(_toJSON(language, ROOT_PATH, new Map<any, string>()), null, space);
+}
+
+/**
+ * Parse a definition serialized with `serializeMonarch`, either the JSON text or the parsed value.
+ */
+export function parseMonarch(json: string | object): IMonarchLanguage {
+	const value = typeof json === 'string' ? JSON.parse(json) : json;
+	const language = _fromJSON(value, ROOT_PATH, new Map<string, any>());
+	if (!language || typeof language !== 'object' || !language.tokenizer || typeof language.tokenizer !== 'object') {
+		throw new Error('Invalid Monarch definition: a tokenizer is required');
+	}
+	return language;
+}
+
+function _toJSON(value: any, path: string, seen: Map<any, string>): any {
+	if (value instanceof RegExp) {
+		const flags = _getFlags(value);
+		return flags ? { [REGEX_KEY]: value.source, [FLAGS_KEY]: flags } : { [REGEX_KEY]: value.source };
+	}
+	if (!value || typeof value !== 'object') {
+		return value;
+	}
+
+	const ref = seen.get(value);
+	if (ref !== undefined) {
+		return { [REF_KEY]: ref };
+	}
+	seen.set(value, path);
+
+	if (Array.isArray(value)) {
+		return value.map((item, index) => _toJSON(item, path + '/' + index, seen));
+	}
+	let result: any = {};
+	for (const key of Object.keys(value)) {
+		result[key] = _toJSON(value[key], path + '/' + _escapePointerSegment(key), seen);
+	}
+	return result;
+}
+
+function _fromJSON(value: any, path: string, parsed: Map<string, any>): any {
+	if (!value || typeof value !== 'object') {
+		return value;
+	}
+
+	if (Array.isArray(value)) {
+		let result: any[] = [];
+		parsed.set(path, result);
+		value.forEach((item, index) => result.push(_fromJSON(item, path + '/' + index, parsed)));
+		return result;
+	}
+	if (typeof value[REGEX_KEY] === 'string') {
+		return new RegExp(value[REGEX_KEY], value[FLAGS_KEY] || '');
+	}
+	if (typeof value[REF_KEY] === 'string') {
+		// references always point back to something parsed before
+		const ref = value[REF_KEY];
+		if (!parsed.has(ref)) {
+			throw new Error(`Invalid Monarch definition: unresolved reference '${ref}' at '${path}'`);
+		}
+		return parsed.get(ref);
+	}
+	let result: any = {};
+	parsed.set(path, result);
+	for (const key of Object.keys(value)) {
+		result[key] = _fromJSON(value[key], path + '/' + _escapePointerSegment(key), parsed);
+	}
+	return result;
+}
+
+function _getFlags(regex: RegExp): string {
+	return (regex.global ? 'g' : '') + (regex.ignoreCase ? 'i' : '') + (regex.multiline ? 'm' : '') + ((<any>regex).unicode ? 'u' : '') + ((<any>regex).sticky ? 'y' : '');
+}
+
+function _escapePointerSegment(key: string): string {
+	return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
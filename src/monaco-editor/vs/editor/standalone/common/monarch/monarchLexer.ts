@@ -8,6 +8,7 @@
  * using regular expressions.
  */
 
+import { Emitter, Event } from 'vs/base/common/event';
 import { IDisposable } from 'vs/base/common/lifecycle';
 import { Token, TokenizationResult, TokenizationResult2 } from 'vs/editor/common/core/token';
 import * as modes from 'vs/editor/common/modes';
@@ -15,10 +16,30 @@ import { NULL_MODE_ID, NULL_STATE } from 'vs/editor/common/modes/nullMode';
 import { TokenTheme } from 'vs/editor/common/modes/supports/tokenization';
 import { IModeService } from 'vs/editor/common/services/modeService';
 import * as monarchCommon from 'vs/editor/standalone/common/monarch/monarchCommon';
+import { IMonarchLineTrace, IMonarchTraceStep } from 'vs/editor/standalone/common/monarch/monarchTrace';
+import { MonarchCoverage } from 'vs/editor/standalone/common/monarch/monarchCoverage';
 import { IStandaloneThemeService } from 'vs/editor/standalone/common/standaloneThemeService';
 
 const CACHE_STACK_DEPTH = 5;
 
+export interface IMonarchTokenizeError {
+	languageId: string;
+	state: string;
+	rule: string;
+	/**
+	 * Where in the line the tokenizer got stuck, the rest of the line gets the default token.
+	 */
+	offset: number;
+	message: string;
+}
+
+const _onTokenizeError = new Emitter<IMonarchTokenizeError>();
+
+/**
+ * Fires when a grammar gets stuck on a rule that matches the empty string, see 'MonarchTokenizer._myTokenize'.
+ */
+export const onTokenizeError: Event<IMonarchTokenizeError> = _onTokenizeError.event;
+
 /**
  * Reuse the same stack elements up to a certain depth.
  */
@@ -122,6 +143,17 @@ class MonarchStackElement {
 	public switchTo(state: string): MonarchStackElement {
 		return MonarchStackElementFactory.create(this.parent, state);
 	}
+
+	/**
+	 * The states from the bottom to the top of the stack.
+	 */
+	public getStates(): string[] {
+		let result: string[] = [];
+		for (let element: MonarchStackElement | null = this; element; element = element.parent) {
+			result.unshift(element.state);
+		}
+		return result;
+	}
 }
 
 class EmbeddedModeData {
@@ -385,6 +417,7 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 	private readonly _embeddedModes: { [modeId: string]: boolean; };
 	public embeddedLoaded: Promise<void>;
 	private readonly _tokenizationRegistryListener: IDisposable;
+	private _coverage: MonarchCoverage | null = null;
 
 	constructor(modeService: IModeService, standaloneThemeService: IStandaloneThemeService, modeId: string, lexer: monarchCommon.ILexer) {
 		this._modeService = modeService;
@@ -453,6 +486,13 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 		};
 	}
 
+	/**
+	 * The suffix of every token type of the language, e.g. `.js`.
+	 */
+	public getTokenPostfix(): string {
+		return this._lexer.tokenPostfix;
+	}
+
 	public getInitialState(): modes.IState {
 		let rootState = MonarchStackElementFactory.create(null, this._lexer.start!);
 		return MonarchLineStateFactory.create(rootState, null);
@@ -470,11 +510,61 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 		return tokensCollector.finalize(endLineState);
 	}
 
-	private _tokenize(line: string, lineState: MonarchLineState, offsetDelta: number, collector: IMonarchTokensCollector): MonarchLineState {
+	/**
+	 * Like `tokenize`, but also records every rule tried and matched and every change of the stack.
+	 * If the tokenizer fails, the trace gets the `error` and the state stays the same.
+	 */
+	public traceTokenize(line: string, lineState: modes.IState): { trace: IMonarchLineTrace; endState: modes.IState; } {
+		const state = <MonarchLineState>lineState;
+		let trace: IMonarchLineTrace = {
+			line,
+			startStack: state.stack.getStates(),
+			endStack: state.stack.getStates(),
+			steps: [],
+			embedded: [],
+			tokens: []
+		};
+		let tokensCollector = new MonarchClassicTokensCollector();
+		try {
+			const endState = this._tokenize(line, state, 0, tokensCollector, trace);
+			trace.endStack = endState.stack.getStates();
+			trace.tokens = tokensCollector.finalize(endState).tokens.map(token => ({ startIndex: token.offset, type: token.type }));
+			return { trace, endState };
+		} catch (err) {
+			trace.error = err.message;
+			return { trace, endState: lineState };
+		}
+	}
+
+	/**
+	 * Tokenize `documents`, each a list of lines, and count the states entered, rules matched and `cases` branches taken.
+	 * Lines the tokenizer fails on are skipped.
+	 */
+	public measureCoverage(documents: string[][]): MonarchCoverage {
+		const coverage = new MonarchCoverage(this._lexer);
+		this._coverage = coverage;
+		try {
+			for (const lines of documents) {
+				let state = this.getInitialState();
+				for (const line of lines) {
+					try {
+						state = this.tokenize(line, state, 0).endState;
+					} catch (err) {
+						// continue with the state the line started with
+					}
+				}
+			}
+		} finally {
+			this._coverage = null;
+		}
+		return coverage;
+	}
+
+	private _tokenize(line: string, lineState: MonarchLineState, offsetDelta: number, collector: IMonarchTokensCollector, trace: IMonarchLineTrace | null = null): MonarchLineState {
 		if (lineState.embeddedModeData) {
-			return this._nestedTokenize(line, lineState, offsetDelta, collector);
+			return this._nestedTokenize(line, lineState, offsetDelta, collector, trace);
 		} else {
-			return this._myTokenize(line, lineState, offsetDelta, collector);
+			return this._myTokenize(line, lineState, offsetDelta, collector, trace);
 		}
 	}
 
@@ -523,10 +613,18 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 		return popOffset;
 	}
 
-	private _nestedTokenize(line: string, lineState: MonarchLineState, offsetDelta: number, tokensCollector: IMonarchTokensCollector): MonarchLineState {
+	private _nestedTokenize(line: string, lineState: MonarchLineState, offsetDelta: number, tokensCollector: IMonarchTokensCollector, trace: IMonarchLineTrace | null): MonarchLineState {
 
 		let popOffset = this._findLeavingNestedModeOffset(line, lineState);
 
+		if (trace && popOffset !== 0) {
+			trace.embedded.push({
+				offset: offsetDelta,
+				languageId: lineState.embeddedModeData!.modeId,
+				text: popOffset === -1 ? line : line.substring(0, popOffset)
+			});
+		}
+
 		if (popOffset === -1) {
 			// tokenization will not leave nested mode
 			let nestedEndState = tokensCollector.nestedModeTokenize(line, lineState.embeddedModeData!, offsetDelta);
@@ -540,7 +638,7 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 		}
 
 		let restOfTheLine = line.substring(popOffset);
-		return this._myTokenize(restOfTheLine, lineState, offsetDelta + popOffset, tokensCollector);
+		return this._myTokenize(restOfTheLine, lineState, offsetDelta + popOffset, tokensCollector, trace);
 	}
 
 	private _safeRuleName(rule: monarchCommon.IRule | null): string {
@@ -550,7 +648,7 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 		return '(unknown)';
 	}
 
-	private _myTokenize(line: string, lineState: MonarchLineState, offsetDelta: number, tokensCollector: IMonarchTokensCollector): MonarchLineState {
+	private _myTokenize(line: string, lineState: MonarchLineState, offsetDelta: number, tokensCollector: IMonarchTokensCollector, trace: IMonarchLineTrace | null): MonarchLineState {
 		tokensCollector.enterMode(offsetDelta, this._modeId);
 
 		const lineLength = line.length;
@@ -572,6 +670,10 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 		// Evaluate rules at least once for an empty line
 		let forceEvaluation = true;
 
+		// the stacks reached by empty matches at 'emptyMatchPos', meeting one again means the rules loop
+		let emptyMatchPos = -1;
+		let emptyMatchStacks: { [key: string]: boolean; } = Object.create(null);
+
 		while (forceEvaluation || pos < lineLength) {
 
 			const pos0 = pos;
@@ -585,6 +687,7 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 			let rule: monarchCommon.IRule | null = null;
 
 			let enteringEmbeddedMode: string | null = null;
+			let attempts: IMonarchTraceStep['attempts'] = [];
 
 			// check if we need to process group matches first
 			if (groupMatching) {
@@ -616,17 +719,27 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 						throw monarchCommon.createError(this._lexer, 'tokenizer state is not defined: ' + state);
 					}
 				}
+				if (this._coverage) {
+					this._coverage.hitState(rules);
+				}
 
 				// try each rule until we match
 				let restOfLine = line.substr(pos);
 				for (let idx in rules) {
 					if (hasOwnProperty.call(rules, idx)) {
-						let rule: monarchCommon.IRule = rules[idx];
-						if (pos === 0 || !rule.matchOnlyAtLineStart) {
-							matches = restOfLine.match(rule.regex);
+						let candidate: monarchCommon.IRule = rules[idx];
+						if (pos === 0 || !candidate.matchOnlyAtLineStart) {
+							matches = restOfLine.match(candidate.regex);
+							if (trace) {
+								attempts.push({ rule: candidate.name, matched: !!matches });
+							}
 							if (matches) {
 								matched = matches[0];
-								action = rule.action;
+								action = candidate.action;
+								rule = candidate;
+								if (this._coverage) {
+									this._coverage.hitRule(candidate);
+								}
 								break;
 							}
 						}
@@ -655,11 +768,34 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 				break;
 			}
 
+			let step: IMonarchTraceStep | null = null;
+			if (trace) {
+				step = {
+					offset: pos0 + offsetDelta,
+					state,
+					stack: stack.getStates(),
+					attempts,
+					rule: rule ? rule.name : null,
+					regex: rule ? rule.regex.source : null,
+					matched,
+					groups: matches.slice(1),
+					token: null,
+					events: []
+				};
+				trace.steps.push(step);
+			}
+
 			// advance stream
 			pos += matched.length;
 
 			// maybe call action function (used for 'cases')
 			while (monarchCommon.isFuzzyAction(action) && monarchCommon.isIAction(action) && action.test) {
+				if (this._coverage && action.branches) {
+					const branch = monarchCommon.findBranch(action.branches, matched, matches, state, pos === lineLength);
+					if (branch) {
+						this._coverage.hitBranch(branch);
+					}
+				}
 				action = action.test(matched, matches, state, pos === lineLength);
 			}
 
@@ -684,6 +820,9 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 						if (!embeddedModeData) {
 							throw monarchCommon.createError(this._lexer, 'cannot pop embedded mode if not inside one');
 						}
+						if (step) {
+							step.events.push({ kind: 'leaveEmbedded', value: embeddedModeData.modeId });
+						}
 						embeddedModeData = null;
 					} else if (embeddedModeData) {
 						throw monarchCommon.createError(this._lexer, 'cannot enter embedded mode from within an embedded mode');
@@ -695,6 +834,9 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 				// state transformations
 				if (action.goBack) { // back up the stream..
 					pos = Math.max(0, pos - action.goBack);
+					if (step) {
+						step.events.push({ kind: 'goBack', value: action.goBack });
+					}
 				}
 
 				if (action.switchTo && typeof action.switchTo === 'string') {
@@ -706,6 +848,9 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 						throw monarchCommon.createError(this._lexer, 'trying to switch to a state \'' + nextState + '\' that is undefined in rule: ' + this._safeRuleName(rule));
 					} else {
 						stack = stack.switchTo(nextState);
+						if (step) {
+							step.events.push({ kind: 'switchTo', value: nextState });
+						}
 					}
 				} else if (action.transform && typeof action.transform === 'function') {
 					throw monarchCommon.createError(this._lexer, 'action.transform not supported');
@@ -716,15 +861,24 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 								stack.state + ',' + stack.parent!.state + ',...]');
 						} else {
 							stack = stack.push(state);
+							if (step) {
+								step.events.push({ kind: 'push', value: state });
+							}
 						}
 					} else if (action.next === '@pop') {
 						if (stack.depth <= 1) {
 							throw monarchCommon.createError(this._lexer, 'trying to pop an empty stack in rule: ' + this._safeRuleName(rule));
 						} else {
 							stack = stack.pop()!;
+							if (step) {
+								step.events.push({ kind: 'pop', value: stack.state });
+							}
 						}
 					} else if (action.next === '@popall') {
 						stack = stack.popall();
+						if (step) {
+							step.events.push({ kind: 'popall', value: stack.state });
+						}
 					} else {
 						let nextState = monarchCommon.substituteMatches(this._lexer, action.next, matched, matches, state);
 						if (nextState[0] === '@') {
@@ -735,12 +889,20 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 							throw monarchCommon.createError(this._lexer, 'trying to set a next state \'' + nextState + '\' that is undefined in rule: ' + this._safeRuleName(rule));
 						} else {
 							stack = stack.push(nextState);
+							if (step) {
+								step.events.push({ kind: 'push', value: nextState });
+							}
 						}
 					}
 				}
 
 				if (action.log && typeof (action.log) === 'string') {
-					monarchCommon.log(this._lexer, this._lexer.languageId + ': ' + monarchCommon.substituteMatches(this._lexer, action.log, matched, matches, state));
+					const message = monarchCommon.substituteMatches(this._lexer, action.log, matched, matches, state);
+					if (step) {
+						step.events.push({ kind: 'log', value: message });
+					} else {
+						monarchCommon.log(this._lexer, this._lexer.languageId + ': ' + message);
+					}
 				}
 			}
 
@@ -785,6 +947,9 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 
 				// check for '@rematch'
 				if (result === '@rematch') {
+					if (step) {
+						step.events.push({ kind: 'rematch' });
+					}
 					pos -= matched.length;
 					matched = '';  // better set the next state too..
 					matches = null;
@@ -793,11 +958,33 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 
 				// check progress
 				if (matched.length === 0) {
-					if (lineLength === 0 || stackLen0 !== stack.depth || state !== stack.state || (!groupMatching ? 0 : groupMatching.groups.length) !== groupLen0) {
+					if (lineLength === 0) {
 						continue;
-					} else {
-						throw monarchCommon.createError(this._lexer, 'no progress in tokenizer in rule: ' + this._safeRuleName(rule));
 					}
+					const groupLen = (!groupMatching ? 0 : groupMatching.groups.length);
+					if (stackLen0 !== stack.depth || state !== stack.state || groupLen !== groupLen0) {
+						if (pos !== emptyMatchPos) {
+							emptyMatchPos = pos;
+							emptyMatchStacks = Object.create(null);
+						}
+						const key = stack.getStates().join('\n') + '\n' + groupLen;
+						if (!emptyMatchStacks[key]) {
+							emptyMatchStacks[key] = true;
+							continue;
+						}
+					}
+
+					// give up on the rest of the line instead of spinning forever
+					const message = 'no progress in tokenizer in rule: ' + this._safeRuleName(rule);
+					_onTokenizeError.fire({ languageId: this._modeId, state, rule: this._safeRuleName(rule), offset: pos + offsetDelta, message });
+					if (trace) {
+						trace.error = message;
+					}
+					if (pos < lineLength) {
+						const defaultToken = this._lexer.defaultToken;
+						tokensCollector.emit(pos + offsetDelta, monarchCommon.sanitize(defaultToken === '' ? '' : defaultToken + this._lexer.tokenPostfix));
+					}
+					return MonarchLineStateFactory.create(stack, embeddedModeData);
 				}
 
 				// return the result (and check for brace matching)
@@ -815,6 +1002,9 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 					tokenType = monarchCommon.sanitize(token);
 				}
 
+				if (step) {
+					step.token = tokenType;
+				}
 				tokensCollector.emit(pos0 + offsetDelta, tokenType);
 			}
 
@@ -826,11 +1016,14 @@ export class MonarchTokenizer implements modes.ITokenizationSupport {
 				}
 
 				let embeddedModeData = this._getNestedEmbeddedModeData(enteringEmbeddedMode);
+				if (step) {
+					step.events.push({ kind: 'enterEmbedded', value: embeddedModeData.modeId });
+				}
 
 				if (pos < lineLength) {
 					// there is content from the embedded mode on this line
 					let restOfLine = line.substr(pos);
-					return this._nestedTokenize(restOfLine, MonarchLineStateFactory.create(stack, embeddedModeData), offsetDelta + pos, tokensCollector);
+					return this._nestedTokenize(restOfLine, MonarchLineStateFactory.create(stack, embeddedModeData), offsetDelta + pos, tokensCollector, trace);
 				} else {
 					return MonarchLineStateFactory.create(stack, embeddedModeData);
 				}
@@ -0,0 +1,69 @@
+/*
+ * What the Monarch tokenizer did on every line, recorded by 'MonarchTokenizer.traceTokenize'.
+ */
+
+export interface IMonarchTrace {
+	languageId: string;
+	lines: IMonarchLineTrace[];
+}
+
+export interface IMonarchLineTrace {
+	line: string;
+	/**
+	 * The tokenizer stack at the start and the end of the line, outermost state first.
+	 */
+	startStack: string[];
+	endStack: string[];
+	steps: IMonarchTraceStep[];
+	/**
+	 * Text handed over to embedded languages.
+	 */
+	embedded: IMonarchEmbeddedTrace[];
+	tokens: { startIndex: number; type: string; }[];
+	/**
+	 * Set if the tokenizer failed on the line, e.g. `no progress in tokenizer`.
+	 */
+	error?: string;
+}
+
+/**
+ * One match: a rule, a group of a rule or, if no rule matched, a character with the default token.
+ */
+export interface IMonarchTraceStep {
+	offset: number;
+	state: string;
+	stack: string[];
+	/**
+	 * The rules tried before one matched, in order.
+	 */
+	attempts: { rule: string; matched: boolean; }[];
+	/**
+	 * The name of the matched rule, `null` for the default token.
+	 */
+	rule: string | null;
+	/**
+	 * The regular expression as compiled, with attribute references expanded.
+	 */
+	regex: string | null;
+	matched: string;
+	groups: string[];
+	/**
+	 * The token emitted, `null` if the match is split into groups.
+	 */
+	token: string | null;
+	events: IMonarchTraceEvent[];
+}
+
+export interface IMonarchTraceEvent {
+	kind: 'push' | 'pop' | 'popall' | 'switchTo' | 'goBack' | 'rematch' | 'enterEmbedded' | 'leaveEmbedded' | 'log';
+	/**
+	 * The state entered, the characters gone back, the embedded language or the log message.
+	 */
+	value?: string | number;
+}
+
+export interface IMonarchEmbeddedTrace {
+	offset: number;
+	languageId: string;
+	text: string;
+}
@@ -0,0 +1,505 @@
+/*
+ * Checks a JSON language definition without compiling it and reports every problem found,
+ * instead of stopping at the first one like 'compile' does.
+ */
+
+import { IMonarchLanguage } from 'vs/editor/standalone/common/monarch/monarchTypes';
+
+export interface IMonarchDiagnostic {
+	/**
+	 * e.g. `undefined-state`
+	 */
+	code: string;
+	/**
+	 * Definitions with errors do not compile, warnings point at rules and attributes without effect
+	 * and at states 'compile' does not check, which are only looked up while tokenizing.
+	 */
+	severity: 'error' | 'warning';
+	message: string;
+	/**
+	 * Where the problem is, e.g. `tokenizer.root[3].action.next`.
+	 */
+	path: string;
+}
+
+/**
+ * The attributes with a meaning of their own, all others are there to be referenced with `@name`.
+ */
+const OPTIONS = ['tokenizer', 'ignoreCase', 'defaultToken', 'brackets', 'start', 'tokenPostfix'];
+
+/**
+ * The number of nested `@name` references expanded in regular expressions, as in 'compile'.
+ */
+const MAX_EXPANSIONS = 5;
+
+/**
+ * Regular expressions that match any character, rules after them can never match.
+ */
+const MATCHES_EVERYTHING = /^(?:\.|\[\^\]|\[\\s\\S\]|\[\\S\\s\]|\[\\w\\W\]|\[\\W\\w\]|\[\\d\\D\]|\[\\D\\d\])(?:[*+]\??)?$/;
+
+/**
+ * Collect the problems of `json` as diagnostics, errors first.
+ */
+export function validateMonarch(json: IMonarchLanguage): IMonarchDiagnostic[] {
+	const diagnostics = new MonarchValidator(json).validate();
+	return diagnostics.filter(d => d.severity === 'error').concat(diagnostics.filter(d => d.severity === 'warning'));
+}
+
+/**
+ * The error 'compile' throws for a definition with errors, with all of them as `diagnostics`.
+ */
+export function monarchCompileError(languageId: string, diagnostics: IMonarchDiagnostic[]): Error {
+	const first = diagnostics[0];
+	let message = `${languageId}: ${first.message}, at: ${first.path}`;
+	if (diagnostics.length > 1) {
+		message += ` (and ${diagnostics.length - 1} more)`;
+	}
+	const error = new Error(message);
+	error.name = 'MonarchCompileError';
+	(<any>error).diagnostics = diagnostics;
+	return error;
+}
+
+interface IInclude {
+	from: string;
+	to: string;
+	path: string;
+}
+
+class MonarchValidator {
+	private readonly _json: any;
+	private readonly _diagnostics: IMonarchDiagnostic[] = [];
+	private readonly _usedAttributes: { [name: string]: boolean; } = Object.create(null);
+	private readonly _includes: IInclude[] = [];
+	/**
+	 * The states a state goes on to with `next` or `switchTo`.
+	 */
+	private readonly _transitions: { [state: string]: string[]; } = Object.create(null);
+	private _states: string[] = [];
+	private _state: string = '';
+
+	constructor(json: any) {
+		this._json = json;
+	}
+
+	public validate(): IMonarchDiagnostic[] {
+		const json = this._json;
+		if (!json || typeof json !== 'object') {
+			this._error('invalid-definition', '', 'a language definition must be an object');
+			return this._diagnostics;
+		}
+		if (!json.tokenizer || typeof json.tokenizer !== 'object') {
+			this._error('missing-tokenizer', 'tokenizer', 'a language definition must define the \'tokenizer\' attribute as an object');
+			return this._diagnostics;
+		}
+
+		this._states = Object.keys(json.tokenizer);
+		for (const state of this._states) {
+			this._state = state;
+			this._transitions[state] = [];
+			const path = joinPath('tokenizer', state);
+			const rules = json.tokenizer[state];
+			if (Array.isArray(rules)) {
+				this._validateRules(rules, path);
+			} else {
+				this._warning('invalid-state', path, 'the rules of a state must be an array');
+			}
+		}
+
+		if (json.start !== undefined && (typeof json.start !== 'string' || !this._findState(json.start))) {
+			this._warning('undefined-state', 'start', `the start state '${json.start}' is not defined`);
+		}
+		this._validateBrackets(json.brackets);
+		this._validateIncludeCycles();
+		this._checkReachability();
+		this._checkUnusedAttributes();
+		return this._diagnostics;
+	}
+
+	private _validateRules(rules: any[], path: string): void {
+		let shadowedBy: string | null = null;
+		rules.forEach((rule, index) => {
+			const rulePath = `${path}[${index}]`;
+			if (shadowedBy !== null) {
+				this._warning('unreachable-rule', rulePath, `the rule can never match, '${shadowedBy}' before it matches everything`);
+			}
+
+			if (rule && rule.include) {
+				const include = rule.include;
+				if (typeof include !== 'string') {
+					this._error('invalid-include', rulePath + '.include', 'an \'include\' attribute must be a string');
+					return;
+				}
+				const target = include[0] === '@' ? include.substr(1) : include;
+				if (!Object.prototype.hasOwnProperty.call(this._json.tokenizer, target) || !this._json.tokenizer[target]) {
+					this._error('undefined-include', rulePath + '.include', `include target '${include}' is not defined`);
+					return;
+				}
+				this._includes.push({ from: this._state, to: target, path: rulePath + '.include' });
+				if (shadowedBy === null && this._matchesEverything(target, [])) {
+					shadowedBy = include;
+				}
+				return;
+			}
+
+			let regex: any;
+			let regexPath: string;
+			if (Array.isArray(rule) && rule.length >= 1 && rule.length <= 3) {
+				regex = rule[0];
+				regexPath = rulePath + '[0]';
+				if (rule.length >= 3) {
+					if (typeof rule[1] === 'string') {
+						this._useSubstitutions(rule[1]);
+						this._validateNextState(rule[2], rulePath + '[2]', 'next');
+					} else if (rule[1] && typeof rule[1] === 'object') {
+						this._validateAction(rule[1], rulePath + '[1]', { value: rule[2], path: rulePath + '[2]' });
+					} else {
+						this._error('invalid-rule', rulePath, 'a next state as the last element of a rule can only be given if the action is either an object or a string');
+					}
+				} else {
+					this._validateAction(rule[1], rulePath + '[1]');
+				}
+			} else {
+				if (!rule || !rule.regex) {
+					this._error('invalid-rule', rulePath, 'a rule must either be an array, or an object with a \'regex\' or \'include\' field');
+					return;
+				}
+				regex = rule.regex;
+				regexPath = rulePath + '.regex';
+				this._validateAction(rule.action, rulePath + '.action');
+			}
+
+			const source = this._validateRuleRegex(regex, regexPath);
+			if (shadowedBy === null && source !== null && MATCHES_EVERYTHING.test(source)) {
+				shadowedBy = source;
+			}
+		});
+	}
+
+	/**
+	 * Returns the source of the regular expression.
+	 */
+	private _validateRuleRegex(regex: any, path: string): string | null {
+		let source: string;
+		if (typeof regex === 'string') {
+			source = regex;
+		} else if (regex instanceof RegExp) {
+			source = regex.source;
+		} else {
+			this._error('invalid-rule', path, 'rules must start with a match string or regular expression');
+			return null;
+		}
+		const matchOnlyAtLineStart = source.length > 0 && source[0] === '^';
+		this._compileRegExp('^(?:' + (matchOnlyAtLineStart ? source.substr(1) : source) + ')', path);
+		return source;
+	}
+
+	private _compileRegExp(str: string, path: string): void {
+		const json = this._json;
+		for (let n = 0; str.indexOf('@') >= 0 && n < MAX_EXPANSIONS; n++) {
+			str = str.replace(/@(\w+)/g, (s: string, attr: string) => {
+				this._usedAttributes[attr] = true;
+				const value = json[attr];
+				if (typeof value === 'string') {
+					return value ? '(?:' + value + ')' : '';
+				}
+				if (value instanceof RegExp) {
+					return value.source ? '(?:' + value.source + ')' : '';
+				}
+				if (value === undefined) {
+					this._error('undefined-attribute', path, `the language definition does not contain attribute '${attr}'`);
+				} else {
+					this._error('invalid-attribute', path, `attribute reference '${attr}' must be a string or regular expression`);
+				}
+				return '';
+			});
+		}
+		try {
+			new RegExp(str, json.ignoreCase === true ? 'i' : '');
+		} catch (err) {
+			this._error('invalid-regex', path, err.message);
+		}
+	}
+
+	private _validateAction(action: any, path: string, next?: { value: any; path: string; }): void {
+		if (!action) {
+			return;
+		}
+		if (typeof action === 'string') {
+			this._useSubstitutions(action);
+			return;
+		}
+		if (action.token || action.token === '') {
+			if (typeof action.token !== 'string') {
+				this._error('invalid-token', path + '.token', 'a \'token\' attribute must be of type string');
+				return;
+			}
+			this._useSubstitutions(action.token);
+			if (typeof action.bracket === 'string' && action.bracket !== '@open' && action.bracket !== '@close') {
+				this._error('invalid-bracket', path + '.bracket', 'a \'bracket\' attribute must be either \'@open\' or \'@close\'');
+			}
+			if (next) {
+				this._validateNextState(next.value, next.path, 'next');
+			} else {
+				this._validateNextState(action.next, path + '.next', 'next');
+			}
+			if (typeof action.switchTo === 'string') {
+				this._validateNextState(action.switchTo, path + '.switchTo', 'switchTo');
+			}
+			return;
+		}
+		if (Array.isArray(action)) {
+			action.forEach((item, index) => this._validateAction(item, `${path}[${index}]`));
+			return;
+		}
+		if (action.cases) {
+			for (const key of Object.keys(action.cases)) {
+				const casePath = joinPath(path + '.cases', key);
+				this._validateGuard(key, casePath);
+				this._validateAction(action.cases[key], casePath);
+			}
+			return;
+		}
+		this._error('invalid-action', path, 'an action must be a string, an object with a \'token\' or \'cases\' attribute, or an array of actions');
+	}
+
+	private _validateNextState(next: any, path: string, kind: 'next' | 'switchTo'): void {
+		if (!next) {
+			return;
+		}
+		if (typeof next !== 'string') {
+			this._report(kind, 'invalid-next', path, `the ${kind} state must be a string value`);
+			return;
+		}
+		this._useSubstitutions(next);
+		if (kind === 'next' && /^(@pop|@push|@popall)$/.test(next)) {
+			return;
+		}
+		const state = next[0] === '@' ? next.substr(1) : next;
+		if (state.indexOf('$') >= 0) {
+			// only known while tokenizing, every state it might become counts as reached
+			const prefix = state.substr(0, state.indexOf('$'));
+			const parent = prefix.substr(0, prefix.lastIndexOf('.'));
+			for (const candidate of this._states) {
+				if (candidate.substr(0, prefix.length) === prefix || (parent && candidate === parent)) {
+					this._transitions[this._state].push(candidate);
+				}
+			}
+			return;
+		}
+		const target = this._findState(state);
+		if (!target) {
+			this._report(kind, 'undefined-state', path, `the ${kind} state '${next}' is not defined`);
+			return;
+		}
+		this._transitions[this._state].push(target);
+	}
+
+	private _validateGuard(key: string, path: string): void {
+		if (key === '@default' || key === '@' || key === '' || key === '@eos') {
+			return;
+		}
+		let pattern = key;
+		const scrutinee = key.match(/^\$(([sS]?)(\d\d?)|#)(.*)$/);
+		if (scrutinee) {
+			pattern = scrutinee[4];
+		}
+		if (!pattern || /^\w*$/.test(pattern)) {
+			return;
+		}
+		let op = '~';
+		let pat = pattern;
+		const operator = pattern.match(/^(@|!@|~|!~|==|!=)(.*)$/);
+		if (operator) {
+			op = operator[1];
+			pat = operator[2];
+		}
+
+		if ((op === '~' || op === '!~') && /^(\w|\|)*$/.test(pat)) {
+			return;
+		}
+		if (op === '@' || op === '!@') {
+			this._usedAttributes[pat] = true;
+			const words = this._json[pat];
+			if (!words) {
+				this._error('undefined-match-target', path, `the @ match target '${pat}' is not defined`);
+			} else if (!Array.isArray(words) || words.some(word => typeof word !== 'string')) {
+				this._error('invalid-match-target', path, `the @ match target '${pat}' must be an array of strings`);
+			}
+			return;
+		}
+		this._useSubstitutions(pat);
+		if ((op === '~' || op === '!~') && pat.indexOf('$') < 0) {
+			this._compileRegExp('^' + pat + '$', path);
+		}
+	}
+
+	private _validateBrackets(brackets: any): void {
+		if (!brackets) {
+			return;
+		}
+		if (!Array.isArray(brackets)) {
+			this._error('invalid-brackets', 'brackets', 'the \'brackets\' attribute must be defined as an array');
+			return;
+		}
+		brackets.forEach((desc, index) => {
+			const path = `brackets[${index}]`;
+			if (desc && Array.isArray(desc) && desc.length === 3) {
+				desc = { token: desc[2], open: desc[0], close: desc[1] };
+			}
+			if (!desc || typeof desc.open !== 'string' || typeof desc.token !== 'string' || typeof desc.close !== 'string') {
+				this._error('invalid-brackets', path, 'every element in the \'brackets\' array must be a \'{open,close,token}\' object or array');
+			} else if (desc.open === desc.close) {
+				this._error('invalid-brackets', path, `open and close brackets must be different: ${desc.open}, use the 'bracket' attribute to match equal brackets`);
+			}
+		});
+	}
+
+	private _validateIncludeCycles(): void {
+		for (const include of this._includes) {
+			if (this._includesState(include.to, include.from, [])) {
+				this._error('include-cycle', include.path, `including '${include.to}' in '${include.from}' never ends`);
+			}
+		}
+	}
+
+	private _includesState(from: string, to: string, visited: string[]): boolean {
+		if (from === to) {
+			return true;
+		}
+		if (visited.indexOf(from) >= 0) {
+			return false;
+		}
+		visited.push(from);
+		return this._includes.some(include => include.from === from && this._includesState(include.to, to, visited));
+	}
+
+	private _checkReachability(): void {
+		if (this._states.length === 0) {
+			return;
+		}
+		const start = typeof this._json.start === 'string' ? this._findState(this._json.start) : this._states[0];
+		if (!start) {
+			return;
+		}
+		let reached: { [state: string]: boolean; } = Object.create(null);
+		let pending = [start];
+		while (pending.length > 0) {
+			const state = pending.pop()!;
+			if (reached[state]) {
+				continue;
+			}
+			reached[state] = true;
+			pending = pending.concat(this._transitions[state]);
+			for (const include of this._includes) {
+				if (include.from === state) {
+					pending.push(include.to);
+				}
+			}
+		}
+		for (const state of this._states) {
+			if (!reached[state]) {
+				this._warning('unreachable-state', joinPath('tokenizer', state), `the state '${state}' is never entered or included`);
+			}
+		}
+	}
+
+	private _checkUnusedAttributes(): void {
+		// attributes can reference each other
+		for (const name of Object.keys(this._json)) {
+			const value = this._json[name];
+			if (OPTIONS.indexOf(name) < 0 && (typeof value === 'string' || value instanceof RegExp)) {
+				(typeof value === 'string' ? value : value.source).replace(/@(\w+)/g, (s: string, attr: string) => {
+					this._usedAttributes[attr] = true;
+					return s;
+				});
+			}
+		}
+		for (const name of Object.keys(this._json)) {
+			const value = this._json[name];
+			const referencable = typeof value === 'string' || value instanceof RegExp || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+			if (OPTIONS.indexOf(name) < 0 && referencable && !this._usedAttributes[name]) {
+				this._warning('unused-attribute', joinPath('', name), `the attribute '${name}' is never used`);
+			}
+		}
+	}
+
+	/**
+	 * Whether the rules of `state` (with its includes) start matching any character before anything else.
+	 */
+	private _matchesEverything(state: string, visited: string[]): boolean {
+		if (visited.indexOf(state) >= 0) {
+			return false;
+		}
+		visited.push(state);
+		const rules = this._json.tokenizer[state];
+		if (!Array.isArray(rules)) {
+			return false;
+		}
+		for (const rule of rules) {
+			if (rule && typeof rule.include === 'string') {
+				const target = rule.include[0] === '@' ? rule.include.substr(1) : rule.include;
+				if (this._matchesEverything(target, visited)) {
+					return true;
+				}
+				continue;
+			}
+			const regex = Array.isArray(rule) ? rule[0] : rule && rule.regex;
+			const source = typeof regex === 'string' ? regex : regex instanceof RegExp ? regex.source : null;
+			if (source !== null && MATCHES_EVERYTHING.test(source)) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	private _findState(state: string): string | null {
+		while (state) {
+			if (Object.prototype.hasOwnProperty.call(this._json.tokenizer, state)) {
+				return state;
+			}
+			const index = state.lastIndexOf('.');
+			state = index < 0 ? '' : state.substr(0, index);
+		}
+		return null;
+	}
+
+	/**
+	 * Attributes referenced as `$@name` in tokens and states.
+	 */
+	private _useSubstitutions(str: string): void {
+		str.replace(/\$@(\w+)/g, (s: string, attr: string) => {
+			this._usedAttributes[attr] = true;
+			return s;
+		});
+	}
+
+	private _error(code: string, path: string, message: string): void {
+		this._diagnostics.push({ code, severity: 'error', message, path });
+	}
+
+	private _warning(code: string, path: string, message: string): void {
+		this._diagnostics.push({ code, severity: 'warning', message, path });
+	}
+
+	/**
+	 * 'compile' checks `next` states, a `switchTo` state is only looked up while tokenizing.
+	 */
+	private _report(kind: 'next' | 'switchTo', code: string, path: string, message: string): void {
+		if (kind === 'next') {
+			this._error(code, path, message);
+		} else {
+			this._warning(code, path, message);
+		}
+	}
+}
+
+/**
+ * Append `key` to a path like `tokenizer.root`, in brackets unless it is an identifier.
+ */
+export function joinPath(path: string, key: string): string {
+	if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+		return path ? path + '.' + key : key;
+	}
+	return path + '[' + JSON.stringify(key) + ']';
+}
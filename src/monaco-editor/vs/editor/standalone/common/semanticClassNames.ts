@@ -0,0 +1,122 @@
+import { Color } from 'vs/base/common/color';
+import { FontStyle, TokenMetadata } from 'vs/editor/common/modes';
+import { ExternalThemeTrieElement, TokenTheme } from 'vs/editor/common/modes/supports/tokenization';
+
+/*
+ * Class names that depend on the token types only, not on a theme's color map:
+ * `string.escape.js` is rendered as `mt mt-string mt-string-escape mt-string-escape-js mtl-js`, one class per prefix
+ * of the type and the `tokenPostfix` of the language separately. `generateSemanticCSS` turns a theme into rules for them.
+ * Like the theme trie, a rule applies to the prefixes of the full type only and every selector is a single class,
+ * so the rules of deeper types, which come later, win.
+ */
+
+/**
+ * Every token gets this class, the theme's default colors apply to it.
+ */
+export const SEMANTIC_TOKEN_CLASS_NAME = 'mt';
+
+/**
+ * The class names of a token of `type`, with an `mtl-` class if the type ends with `tokenPostfix` (e.g. `.js`).
+ */
+export function getSemanticClassNames(type: string, tokenPostfix: string): string {
+	let result = SEMANTIC_TOKEN_CLASS_NAME;
+	if (type) {
+		const segments = type.split('.');
+		for (let i = 1; i <= segments.length; i++) {
+			result += ' ' + _className(segments.slice(0, i));
+		}
+	}
+	if (tokenPostfix && type.length > tokenPostfix.length && type.substr(type.length - tokenPostfix.length) === tokenPostfix) {
+		result += ' ' + _languageClassName(tokenPostfix.substr(1));
+	}
+	return result;
+}
+
+/**
+ * CSS for the semantic class names, colored like `tokenTheme` colors the token types.
+ * `scope`, e.g. `.vs-dark`, is put in front of every selector.
+ */
+export function generateSemanticCSS(tokenTheme: TokenTheme, scope: string = ''): string {
+	const colorMap = tokenTheme.getColorMap();
+	let rules: string[] = [];
+	for (const rule of getSemanticTokenRules(tokenTheme)) {
+		const declarations = _declarations(rule.metadata, rule.parent, colorMap);
+		if (declarations) {
+			rules.push(`${getSemanticSelectors(rule.segments, scope)} { ${declarations} }`);
+		}
+	}
+	return rules.join('\n');
+}
+
+export interface ISemanticTokenRule {
+	/**
+	 * The token type split at the dots, empty for the defaults of all tokens.
+	 */
+	segments: string[];
+	metadata: number;
+	parent: number | null;
+}
+
+/**
+ * The token types `tokenTheme` has rules for with their resolved metadata, parents first.
+ */
+export function getSemanticTokenRules(tokenTheme: TokenTheme): ISemanticTokenRule[] {
+	const root = tokenTheme.getThemeTrieElement();
+	let result: ISemanticTokenRule[] = [{ segments: [], metadata: root.mainRule.metadata, parent: null }];
+	let level: { segments: string[]; element: ExternalThemeTrieElement; parent: number; }[] = [];
+	for (const segment of Object.keys(root.children)) {
+		level.push({ segments: [segment], element: root.children[segment], parent: root.mainRule.metadata });
+	}
+	while (level.length > 0) {
+		let next: typeof level = [];
+		for (const { segments, element, parent } of level) {
+			result.push({ segments, metadata: element.mainRule.metadata, parent });
+			for (const segment of Object.keys(element.children)) {
+				next.push({ segments: segments.concat([segment]), element: element.children[segment], parent: element.mainRule.metadata });
+			}
+		}
+		level = next;
+	}
+	return result;
+}
+
+/**
+ * The selector for tokens of the type `segments`.
+ */
+export function getSemanticSelectors(segments: string[], scope: string = ''): string {
+	const prefix = scope ? scope + ' ' : '';
+	return prefix + '.' + (segments.length === 0 ? SEMANTIC_TOKEN_CLASS_NAME : _className(segments));
+}
+
+function _className(segments: string[]): string {
+	return 'mt-' + segments.join('-').replace(/[^\w-]/g, '-');
+}
+
+function _languageClassName(language: string): string {
+	return 'mtl-' + language.replace(/[^\w-]/g, '-');
+}
+
+/**
+ * The declarations for `metadata` that differ from `parent`, all of them without a parent.
+ */
+function _declarations(metadata: number, parent: number | null, colorMap: Color[]): string {
+	const foreground = TokenMetadata.getForeground(metadata);
+	const fontStyle = TokenMetadata.getFontStyle(metadata);
+	const parentForeground = parent === null ? -1 : TokenMetadata.getForeground(parent);
+	const parentFontStyle = parent === null ? -1 : TokenMetadata.getFontStyle(parent);
+
+	let result: string[] = [];
+	if (foreground !== parentForeground) {
+		result.push(`color: ${colorMap[foreground]};`);
+	}
+	if (parent === null || (fontStyle & FontStyle.Italic) !== (parentFontStyle & FontStyle.Italic)) {
+		result.push(`font-style: ${fontStyle & FontStyle.Italic ? 'italic' : 'normal'};`);
+	}
+	if (parent === null || (fontStyle & FontStyle.Bold) !== (parentFontStyle & FontStyle.Bold)) {
+		result.push(`font-weight: ${fontStyle & FontStyle.Bold ? 'bold' : 'normal'};`);
+	}
+	if (parent === null || (fontStyle & FontStyle.Underline) !== (parentFontStyle & FontStyle.Underline)) {
+		result.push(`text-decoration: ${fontStyle & FontStyle.Underline ? 'underline' : 'none'};`);
+	}
+	return result.join(' ');
+}
@@ -13,7 +13,10 @@ export type BuiltinTheme = 'vs' | 'vs-dark' | 'hc-black';
 export type IColors = { [colorId: string]: string; };
 
 export interface IStandaloneThemeData {
-	base: BuiltinTheme;
+	/**
+	 * A builtin theme or another defined theme.
+	 */
+	base: BuiltinTheme | string;
 	inherit: boolean;
 	rules: ITokenThemeRule[];
 	encodedTokensColors?: string[];
@@ -23,6 +26,13 @@ export interface IStandaloneThemeData {
 export interface IStandaloneTheme extends ITheme {
 	tokenTheme: TokenTheme;
 	themeName: string;
+	readonly themeData: IStandaloneThemeData;
+
+	/**
+	 * The theme data with the rules and colors of all its bases merged in, i.e. `base` is the builtin theme
+	 * at the end of the chain and `inherit` is `false`.
+	 */
+	getResolvedThemeData(): IStandaloneThemeData;
 }
 
 export interface IStandaloneThemeService extends IThemeService {
@@ -33,4 +43,20 @@ export interface IStandaloneThemeService extends IThemeService {
 	defineTheme(themeName: string, themeData: IStandaloneThemeData): void;
 
 	getTheme(): IStandaloneTheme;
+
+	/**
+	 * Get a defined theme without making it the current one, falls back to `vs`.
+	 */
+	getThemeByName(themeName: string): IStandaloneTheme;
+
+	/**
+	 * The CSS of the current theme and the scoped themes, also available when there is no DOM.
+	 */
+	getThemeCSS(): string;
+
+	/**
+	 * Also add the CSS of theme `themeName` with every selector scoped under its class name, e.g. `.vs-dark .mtk5`,
+	 * so elements of different themes can be shown side by side. Returns the class name.
+	 */
+	addScopedTheme(themeName: string): string;
 }
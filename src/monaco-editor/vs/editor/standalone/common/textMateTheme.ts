@@ -0,0 +1,250 @@
+import { Color } from 'vs/base/common/color';
+import { ITokenThemeRule } from 'vs/editor/common/modes/supports/tokenization';
+import { BuiltinTheme, IColors, IStandaloneThemeData } from 'vs/editor/standalone/common/standaloneThemeService';
+import { Registry } from 'vs/platform/registry/common/platform';
+import { Extensions, IColorRegistry, editorBackground, editorForeground } from 'vs/platform/theme/common/colorRegistry';
+
+/*
+ * VS Code color themes (`.json` with `colors` and `tokenColors`) and TextMate themes converted into `IStandaloneThemeData`.
+ * TextMate scopes are far more detailed than the token types of the Monarch grammars, a mapping table
+ * assigns the scopes to token types by prefix: with `string` -> `string`, `string.quoted.double` colors strings as well.
+ */
+
+export interface ITextMateTheme {
+	name?: string;
+	/**
+	 * `light`, `dark` or `hc`, picks the base theme.
+	 */
+	type?: string;
+	/**
+	 * Colors of the color registry, e.g. `editor.background`.
+	 */
+	colors?: IColors;
+	tokenColors?: ITextMateThemeRule[];
+}
+
+export interface ITextMateThemeRule {
+	name?: string;
+	/**
+	 * One or more scope selectors, as an array or separated by commas. Without a scope the settings are the defaults.
+	 */
+	scope?: string | string[];
+	settings: {
+		foreground?: string;
+		background?: string;
+		/**
+		 * E.g. `italic bold`, `""` resets the font style.
+		 */
+		fontStyle?: string;
+	};
+}
+
+/**
+ * TextMate scopes and the Monarch token types they color, `null` to leave a scope out.
+ */
+export interface ITextMateScopeMap {
+	[scope: string]: string | string[] | null;
+}
+
+export interface ITextMateThemeOptions {
+	/**
+	 * A builtin or defined theme, defaults to the builtin theme of the same `type`,
+	 * or else to `vs` or `vs-dark` depending on `editor.background`.
+	 */
+	base?: BuiltinTheme | string;
+	/**
+	 * Take whatever the theme leaves out from `base`, defaults to `true`.
+	 */
+	inherit?: boolean;
+	/**
+	 * Entries added to or replacing those of `DEFAULT_SCOPE_MAP`.
+	 */
+	scopeMap?: ITextMateScopeMap;
+}
+
+export interface ITextMateThemeConversion {
+	themeData: IStandaloneThemeData;
+	/**
+	 * The scope selectors no entry of the mapping table applies to, e.g. `entity.name.function`,
+	 * and the selectors with a context, e.g. `meta.tag string`, which token types cannot express.
+	 */
+	unmappedScopes: string[];
+}
+
+export const DEFAULT_SCOPE_MAP: ITextMateScopeMap = {
+	'comment': 'comment',
+	'string': 'string',
+	'string.regexp': 'regexp',
+	'constant': 'constant',
+	'constant.numeric': 'number',
+	'constant.character.escape': 'string.escape',
+	'constant.language': 'keyword',
+	'keyword': 'keyword',
+	'keyword.control': 'keyword.flow',
+	'keyword.operator': 'operator',
+	'storage': 'keyword',
+	'storage.type.annotation': 'annotation',
+	'meta.decorator': 'annotation',
+	'variable': 'variable',
+	'variable.language': 'variable.predefined',
+	'support.variable': 'variable.predefined',
+	'support.function': 'predefined',
+	'entity.name.type': 'type',
+	'entity.name.class': 'type.identifier',
+	'support.type': 'type',
+	'support.class': 'type.identifier',
+	'support.type.property-name': ['key', 'string.key.json'],
+	'entity.name.tag': 'tag',
+	'entity.other.attribute-name': 'attribute.name',
+	'meta.preprocessor': 'metatag',
+	'punctuation': 'delimiter',
+	'invalid': 'invalid',
+	'markup.italic': 'emphasis',
+	'markup.bold': 'strong'
+};
+
+/**
+ * Convert `theme` for `defineTheme`. Token rules without a mapping are left out and reported,
+ * colors unknown to the color registry are dropped.
+ */
+export function convertTextMateTheme(theme: ITextMateTheme, options?: ITextMateThemeOptions): ITextMateThemeConversion {
+	options = options || {};
+	const scopeMap: ITextMateScopeMap = { ...DEFAULT_SCOPE_MAP, ...options.scopeMap };
+
+	const colorRegistry = Registry.as<IColorRegistry>(Extensions.ColorContribution);
+	const knownColors = new Set(colorRegistry.getColors().map(color => color.id));
+	let colors: IColors = {};
+	for (const id in theme.colors || {}) {
+		const color = theme.colors![id];
+		if (knownColors.has(id) && typeof color === 'string' && Color.Format.CSS.parseHex(color)) {
+			colors[id] = color;
+		}
+	}
+
+	let defaults: ITokenThemeRule = { token: '' };
+	let settings = new Map<string, IMappedSettings>();
+	let unmappedScopes: string[] = [];
+	for (const rule of theme.tokenColors || []) {
+		if (!rule || !rule.settings) {
+			continue;
+		}
+		if (!rule.scope) {
+			// the defaults of TextMate themes, VS Code themes have `editor.foreground` instead
+			_assign(defaults, rule.settings.foreground, rule.settings.fontStyle);
+			const background = _tokenColor(rule.settings.background);
+			if (background) {
+				defaults.background = background;
+			}
+			continue;
+		}
+		const selectors = Array.isArray(rule.scope) ? rule.scope : rule.scope.split(',');
+		for (let selector of selectors) {
+			selector = selector.trim();
+			const mapping = _mapScope(selector, scopeMap);
+			if (!mapping) {
+				if (selector && unmappedScopes.indexOf(selector) < 0) {
+					unmappedScopes.push(selector);
+				}
+				continue;
+			}
+			for (const token of mapping.tokens) {
+				let mapped = settings.get(token);
+				if (!mapped) {
+					mapped = { rule: { token }, foreground: Number.MAX_VALUE, fontStyle: Number.MAX_VALUE };
+					settings.set(token, mapped);
+				}
+				// like in TextMate the more specific scope wins, or else the later rule
+				if (_tokenColor(rule.settings.foreground) && mapping.distance <= mapped.foreground) {
+					_assign(mapped.rule, rule.settings.foreground, undefined);
+					mapped.foreground = mapping.distance;
+				}
+				if (typeof rule.settings.fontStyle === 'string' && mapping.distance <= mapped.fontStyle) {
+					_assign(mapped.rule, undefined, rule.settings.fontStyle);
+					mapped.fontStyle = mapping.distance;
+				}
+			}
+		}
+	}
+
+	if (!defaults.foreground && colors[editorForeground]) {
+		defaults.foreground = _tokenColor(colors[editorForeground]);
+	}
+	if (!defaults.background && colors[editorBackground]) {
+		defaults.background = _tokenColor(colors[editorBackground]);
+	}
+	let rules: ITokenThemeRule[] = [];
+	if (defaults.foreground || defaults.background || defaults.fontStyle !== undefined) {
+		rules.push(defaults);
+	}
+	settings.forEach(mapped => rules.push(mapped.rule));
+
+	return {
+		themeData: {
+			base: options.base || _getBase(theme, colors),
+			inherit: options.inherit !== false,
+			rules,
+			colors
+		},
+		unmappedScopes
+	};
+}
+
+interface IMappedSettings {
+	rule: ITokenThemeRule;
+	/**
+	 * How many segments the scopes that set the foreground and the font style had beyond the mapped scope.
+	 */
+	foreground: number;
+	fontStyle: number;
+}
+
+/**
+ * The token types of the longest scope in `scopeMap` that `selector` starts with, none if it is left out.
+ */
+function _mapScope(selector: string, scopeMap: ITextMateScopeMap): { tokens: string[]; distance: number; } | null {
+	if (!/^[\w.\-]+$/.test(selector)) {
+		// descendant selectors, exclusions and groups
+		return null;
+	}
+	const segments = selector.split('.');
+	for (let length = segments.length; length > 0; length--) {
+		const scope = segments.slice(0, length).join('.');
+		if (Object.prototype.hasOwnProperty.call(scopeMap, scope)) {
+			const tokens = scopeMap[scope];
+			return { tokens: tokens === null ? [] : Array.isArray(tokens) ? tokens : [tokens], distance: segments.length - length };
+		}
+	}
+	return null;
+}
+
+function _assign(rule: ITokenThemeRule, foreground: string | undefined, fontStyle: string | undefined): void {
+	const color = _tokenColor(foreground);
+	if (color) {
+		rule.foreground = color;
+	}
+	if (typeof fontStyle === 'string') {
+		// strikethrough and the like have no counterpart
+		rule.fontStyle = fontStyle.split(' ').filter(style => /^(italic|bold|underline)$/.test(style)).join(' ');
+	}
+}
+
+/**
+ * Token rules take 6 hex digits, without alpha.
+ */
+function _tokenColor(color: string | undefined): string | undefined {
+	const parsed = typeof color === 'string' ? Color.Format.CSS.parseHex(color) : null;
+	return parsed ? Color.Format.CSS.formatHex(parsed).substr(1) : undefined;
+}
+
+function _getBase(theme: ITextMateTheme, colors: IColors): BuiltinTheme {
+	switch (theme.type) {
+		case 'light':
+			return 'vs';
+		case 'dark':
+			return 'vs-dark';
+		case 'hc':
+			return 'hc-black';
+	}
+	const background = colors[editorBackground];
+	return background && !Color.fromHex(background).isDarker() ? 'vs' : 'vs-dark';
+}
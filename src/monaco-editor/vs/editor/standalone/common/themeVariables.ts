@@ -0,0 +1,133 @@
+import { FontStyle, TokenMetadata } from 'vs/editor/common/modes';
+import { TokenTheme } from 'vs/editor/common/modes/supports/tokenization';
+import { getSemanticSelectors, getSemanticTokenRules } from 'vs/editor/standalone/common/semanticClassNames';
+import { IStandaloneTheme } from 'vs/editor/standalone/common/standaloneThemeService';
+import { Registry } from 'vs/platform/registry/common/platform';
+import { Extensions, IColorRegistry } from 'vs/platform/theme/common/colorRegistry';
+
+/*
+ * Themes as CSS custom properties: every theme declares the same variables, e.g. `--monarch-string-escape`
+ * and `--monarch-editor-background`, and one theme-independent rule sheet colors the semantic class names with them.
+ * Switching themes only swaps the variables, which a page can also override itself.
+ */
+
+export const THEME_VARIABLE_PREFIX = '--monarch-';
+
+export interface IThemeVariablesOptions {
+	/**
+	 * Where the variables are declared, defaults to `:root`.
+	 */
+	selector?: string;
+	/**
+	 * Only declare the variables if the user prefers this color scheme.
+	 */
+	colorScheme?: 'light' | 'dark';
+	/**
+	 * The names of the themes switched between. Every theme declares the variables of the token types
+	 * of all of them, so no value of one theme is inherited inside another. Defaults to the builtin themes.
+	 */
+	themes?: string[];
+}
+
+/**
+ * The token types any of `tokenThemes` has rules for, split at the dots and parents first.
+ */
+export function getThemeTokenTypes(tokenThemes: TokenTheme[]): string[][] {
+	let seen = new Set<string>();
+	let result: string[][] = [];
+	for (const tokenTheme of tokenThemes) {
+		for (const rule of getSemanticTokenRules(tokenTheme)) {
+			const key = rule.segments.join('.');
+			if (!seen.has(key)) {
+				seen.add(key);
+				result.push(rule.segments);
+			}
+		}
+	}
+	// a type's parent is always a shorter prefix of it
+	return result.sort((a, b) => a.length - b.length);
+}
+
+/**
+ * The variables of `theme` for `tokenTypes` and all registry colors.
+ * A token variable that equals its parent's is set to `initial`, the rules then fall back to the parent's
+ * variable, so overriding `--monarch-string` also recolors `string.escape` unless the theme colors it differently.
+ * Registry colors the theme doesn't resolve are `initial` as well.
+ */
+export function generateThemeVariablesCSS(theme: IStandaloneTheme, tokenTypes: string[][], options?: IThemeVariablesOptions): string {
+	const tokenTheme = theme.tokenTheme;
+	const colorMap = tokenTheme.getColorMap();
+	let declarations: string[] = [];
+
+	for (const segments of tokenTypes) {
+		const metadata = _metadata(tokenTheme, segments);
+		const parent = segments.length === 0 ? null : _metadata(tokenTheme, segments.slice(0, -1));
+		const name = getThemeVariableName(segments);
+		const foreground = TokenMetadata.getForeground(metadata);
+		const fontStyle = TokenMetadata.getFontStyle(metadata);
+
+		declarations.push(`${name}: ${parent !== null && TokenMetadata.getForeground(parent) === foreground ? 'initial' : colorMap[foreground]};`);
+		for (const [property, style, on, off] of FONT_VARIABLES) {
+			const value = fontStyle & style;
+			const same = parent !== null && (TokenMetadata.getFontStyle(parent) & style) === value;
+			declarations.push(`${name}-${property}: ${same ? 'initial' : value ? on : off};`);
+		}
+	}
+
+	const colorRegistry = Registry.as<IColorRegistry>(Extensions.ColorContribution);
+	for (const color of colorRegistry.getColors()) {
+		const value = theme.getColor(color.id);
+		declarations.push(`${getThemeVariableName(color.id.split('.'))}: ${value ? value.toString() : 'initial'};`);
+	}
+
+	const selector = (options && options.selector) || ':root';
+	const block = `${selector} { ${declarations.join(' ')} }`;
+	if (options && options.colorScheme) {
+		return `@media (prefers-color-scheme: ${options.colorScheme}) { ${block} }`;
+	}
+	return block;
+}
+
+/**
+ * The rules coloring the semantic class names of `tokenTypes` with the variables, the same for every theme.
+ */
+export function generateThemeVariableRulesCSS(tokenTypes: string[][]): string {
+	let rules: string[] = [];
+	for (const segments of tokenTypes) {
+		let declarations = [`color: ${_fallbacks(segments, '')};`];
+		for (const [property] of FONT_VARIABLES) {
+			declarations.push(`${property}: ${_fallbacks(segments, '-' + property)};`);
+		}
+		rules.push(`${getSemanticSelectors(segments)} { ${declarations.join(' ')} }`);
+	}
+	return rules.join('\n');
+}
+
+/**
+ * The variable of a token type split at the dots, `--monarch-default` for the defaults of all tokens,
+ * or of a registry color id, e.g. `--monarch-editor-background`.
+ */
+export function getThemeVariableName(segments: string[]): string {
+	return THEME_VARIABLE_PREFIX + (segments.length === 0 ? 'default' : segments.join('-').replace(/[^\w-]/g, '-'));
+}
+
+const FONT_VARIABLES: [string, FontStyle, string, string][] = [
+	['font-style', FontStyle.Italic, 'italic', 'normal'],
+	['font-weight', FontStyle.Bold, 'bold', 'normal'],
+	['text-decoration', FontStyle.Underline, 'underline', 'none']
+];
+
+function _metadata(tokenTheme: TokenTheme, segments: string[]): number {
+	return tokenTheme._match(segments.join('.')).metadata;
+}
+
+/**
+ * `var(--monarch-string-escape, var(--monarch-string, var(--monarch-default)))` for `string.escape`.
+ */
+function _fallbacks(segments: string[], suffix: string): string {
+	let result = `var(${getThemeVariableName([])}${suffix})`;
+	for (let i = 1; i <= segments.length; i++) {
+		result = `var(${getThemeVariableName(segments.slice(0, i))}${suffix}, ${result})`;
+	}
+	return result;
+}
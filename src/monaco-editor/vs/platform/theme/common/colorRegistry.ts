@@ -327,6 +327,12 @@ export const defaultRemoveColor = new Color(new RGBA(255, 0, 0, 0.2));
 export const diffInserted = registerColor('diffEditor.insertedTextBackground', { dark: defaultInsertColor, light: defaultInsertColor, hc: null }, "", true);
 export const diffRemoved = registerColor('diffEditor.removedTextBackground', { dark: defaultRemoveColor, light: defaultRemoveColor, hc: null }, "", true);
 
+export const diffInsertedLine = registerColor('diffEditor.insertedLineBackground', { dark: diffInserted, light: diffInserted, hc: diffInserted }, "", true);
+export const diffRemovedLine = registerColor('diffEditor.removedLineBackground', { dark: diffRemoved, light: diffRemoved, hc: diffRemoved }, "", true);
+
+export const diffInsertedLineGutter = registerColor('diffEditorGutter.insertedLineBackground', { dark: diffInsertedLine, light: diffInsertedLine, hc: diffInsertedLine }, "");
+export const diffRemovedLineGutter = registerColor('diffEditorGutter.removedLineBackground', { dark: diffRemovedLine, light: diffRemovedLine, hc: diffRemovedLine }, "");
+
 export const diffInsertedOutline = registerColor('diffEditor.insertedTextBorder', { dark: null, light: null, hc: '#33ff2eff' }, "");
 export const diffRemovedOutline = registerColor('diffEditor.removedTextBorder', { dark: null, light: null, hc: '#FF008F' }, "");
 
@@ -0,0 +1,60 @@
+import "./monaco-editor/vs/editor/editor.api";
+import "./monaco-editor/vs/basic-languages/monaco.contribution";
+import { StaticServices } from "./monaco-editor/vs/editor/standalone/browser/standaloneServices";
+import { Colorizer } from "vs/editor/standalone/browser/colorizer";
+import { IWorkerResponse, WorkerMessage } from "./workerProtocol";
+
+declare const self: any;
+
+function reply(id: number, promise: Promise<any>, transfer?: (result: any) => any[]) {
+	promise.then(
+		result => {
+			const response: IWorkerResponse = { id, result };
+			self.postMessage(response, transfer ? transfer(result) : []);
+		},
+		err => {
+			const response: IWorkerResponse = {
+				id,
+				error: {
+					name: (err && err.name) || "Error",
+					message: String((err && err.message) || err),
+					languageId: err && err.languageId
+				}
+			};
+			self.postMessage(response);
+		}
+	);
+}
+
+self.onmessage = (e: MessageEvent) => {
+	const message: WorkerMessage = e.data;
+	const modeService = StaticServices.modeService.get();
+	const themeService = StaticServices.standaloneThemeService.get();
+	switch (message.type) {
+		case "theme":
+			themeService.defineTheme(message.themeName, message.themeData);
+			if (message.current) {
+				themeService.setTheme(message.themeName);
+			}
+			break;
+		case "colorize":
+			reply(
+				message.id,
+				Colorizer.colorize(
+					modeService,
+					themeService,
+					message.text,
+					message.languageId,
+					message.options
+				)
+			);
+			break;
+		case "tokenize":
+			reply(
+				message.id,
+				Colorizer.tokenizeEncoded(modeService, message.text, message.languageId),
+				(lines: Uint32Array[]) => lines.map(tokens => tokens.buffer)
+			);
+			break;
+	}
+};
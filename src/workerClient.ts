@@ -0,0 +1,132 @@
+import { disposed } from "vs/base/common/errors";
+import { IDisposable } from "vs/base/common/lifecycle";
+import { IColorizerOptions } from "vs/editor/standalone/browser/colorizer";
+import {
+	IStandaloneTheme,
+	IStandaloneThemeData,
+	IStandaloneThemeService
+} from "vs/editor/standalone/common/standaloneThemeService";
+import { IWorkerResponse, WorkerMessage } from "./workerProtocol";
+
+interface IPendingRequest {
+	resolve: (result: any) => void;
+	reject: (err: Error) => void;
+}
+
+/**
+ * Runs `colorize`/`tokenize` in a worker started from `dist/worker.js`.
+ * The worker follows the theme of the main thread, so the returned `mtk` classes
+ * match the main thread's stylesheet. The theme a `colorize` call names is sent along
+ * and its stylesheet added scoped under the theme name, see `addScopedTheme`.
+ */
+export class WorkerClient implements IDisposable {
+	private readonly _worker: Worker;
+	private readonly _themeService: IStandaloneThemeService;
+	private readonly _pending = new Map<number, IPendingRequest>();
+	/**
+	 * The resolved data last sent per theme, a theme or one of its bases redefined since then resolves to new data.
+	 */
+	private readonly _sentThemes = new Map<string, IStandaloneThemeData>();
+	private readonly _themeListener: IDisposable;
+	private _lastRequestId = 0;
+	private _disposed = false;
+
+	constructor(worker: Worker, themeService: IStandaloneThemeService) {
+		this._worker = worker;
+		this._themeService = themeService;
+		this._worker.addEventListener("message", this._onMessage);
+		this._syncTheme(themeService.getTheme(), true);
+		this._themeListener = themeService.onThemeChange(theme =>
+			this._syncTheme(theme as IStandaloneTheme, true)
+		);
+	}
+
+	public colorize(
+		text: string,
+		languageId: string,
+		options?: IColorizerOptions
+	): Promise<string> {
+		if (options && options.theme && !this._disposed) {
+			const theme = this._themeService.getThemeByName(options.theme);
+			this._syncTheme(theme, false);
+			if (!options.output || options.output === "classNames") {
+				// the `mtk` classes are the theme's own, as in `colorizeElement`
+				this._themeService.addScopedTheme(theme.themeName);
+			}
+		}
+		return this._request(id => ({
+			type: "colorize",
+			id,
+			text,
+			languageId,
+			options
+		}));
+	}
+
+	/**
+	 * Resolves with the encoded tokens of every line, see `Colorizer.tokenizeEncoded`.
+	 */
+	public tokenize(text: string, languageId: string): Promise<Uint32Array[]> {
+		return this._request(id => ({ type: "tokenize", id, text, languageId }));
+	}
+
+	/**
+	 * Stop listening to the worker and reject all pending requests.
+	 * The worker itself is not terminated.
+	 */
+	public dispose(): void {
+		if (this._disposed) {
+			return;
+		}
+		this._disposed = true;
+		this._themeListener.dispose();
+		this._worker.removeEventListener("message", this._onMessage);
+		this._pending.forEach(request => request.reject(disposed("WorkerClient")));
+		this._pending.clear();
+	}
+
+	private _request<T>(createMessage: (id: number) => WorkerMessage): Promise<T> {
+		if (this._disposed) {
+			return Promise.reject(disposed("WorkerClient"));
+		}
+		const id = ++this._lastRequestId;
+		return new Promise<T>((resolve, reject) => {
+			this._pending.set(id, { resolve, reject });
+			this._worker.postMessage(createMessage(id));
+		});
+	}
+
+	private _syncTheme(theme: IStandaloneTheme, current: boolean): void {
+		const themeData = theme.getResolvedThemeData();
+		if (!current && this._sentThemes.get(theme.themeName) === themeData) {
+			return;
+		}
+		this._sentThemes.set(theme.themeName, themeData);
+		const message: WorkerMessage = {
+			type: "theme",
+			themeName: theme.themeName,
+			themeData,
+			current
+		};
+		this._worker.postMessage(message);
+	}
+
+	private readonly _onMessage = (e: MessageEvent) => {
+		const response: IWorkerResponse = e.data;
+		const request = this._pending.get(response.id);
+		if (!request) {
+			return;
+		}
+		this._pending.delete(response.id);
+		if (response.error) {
+			const error = new Error(response.error.message);
+			error.name = response.error.name;
+			if (response.error.languageId) {
+				(<any>error).languageId = response.error.languageId;
+			}
+			request.reject(error);
+		} else {
+			request.resolve(response.result);
+		}
+	};
+}
@@ -0,0 +1,48 @@
+import { IColorizerOptions } from "vs/editor/standalone/browser/colorizer";
+import { IStandaloneThemeData } from "vs/editor/standalone/common/standaloneThemeService";
+
+/**
+ * Defines a theme of the main thread in the worker. With `current` the worker switches to it,
+ * so it uses the same `mtk` ids as the main thread.
+ */
+export interface IWorkerThemeMessage {
+	type: "theme";
+	themeName: string;
+	themeData: IStandaloneThemeData;
+	current: boolean;
+}
+
+export interface IWorkerColorizeRequest {
+	type: "colorize";
+	id: number;
+	text: string;
+	languageId: string;
+	options?: IColorizerOptions;
+}
+
+export interface IWorkerTokenizeRequest {
+	type: "tokenize";
+	id: number;
+	text: string;
+	languageId: string;
+}
+
+export type WorkerMessage =
+	| IWorkerThemeMessage
+	| IWorkerColorizeRequest
+	| IWorkerTokenizeRequest;
+
+/**
+ * An error the worker rejected with, `languageId` is set for a `LanguageLoadError`.
+ */
+export interface IWorkerError {
+	name: string;
+	message: string;
+	languageId?: string;
+}
+
+export interface IWorkerResponse {
+	id: number;
+	result?: any;
+	error?: IWorkerError;
+}
@@ -17,6 +17,8 @@ module.exports = (_, { mode }) => {
       extensions: [".js", ".ts"]
     },
     target: "web",
+    // loadMonarch() only reads files on node.js
+    node: { fs: "empty" },
     module: {
       rules: [
         {
@@ -43,18 +45,45 @@ module.exports = (_, { mode }) => {
       }
     }
   };
+  // node.js build: language chunks are loaded with require() instead of <script>
+  const nodeConfig = {
+    ...config,
+    output: {
+      ...config.output,
+      libraryTarget: "commonjs2",
+      filename: "node.js",
+      chunkFilename: "node/[name].js"
+    },
+    target: "node",
+    optimization: { ...config.optimization }
+  };
+  // web worker build, driven from the main thread by createWorkerClient()
+  const workerConfig = {
+    ...config,
+    entry: "./src/worker.ts",
+    output: {
+      path: config.output.path,
+      filename: "worker.js",
+      chunkFilename: "worker/[name].js",
+      globalObject: "self"
+    },
+    target: "webworker",
+    optimization: { ...config.optimization }
+  };
   if (mode !== "development") {
-    config.optimization.minimizer = [
-      new TerserPlugin({
-        terserOptions: {
-          mangle: {
-            properties: {
-              regex: /^_/
+    [config, nodeConfig, workerConfig].forEach(c => {
+      c.optimization.minimizer = [
+        new TerserPlugin({
+          terserOptions: {
+            mangle: {
+              properties: {
+                regex: /^_/
+              }
             }
           }
-        }
-      })
-    ];
+        })
+      ];
+    });
   }
-  return config;
+  return [config, nodeConfig, workerConfig];
 };
@@ -0,0 +1,18 @@
+const path = require("path");
+const createConfigs = require("./webpack.config.js");
+
+// `npm test`: src/index.test.ts bundled like the node.js build, then run by mocha
+module.exports = (env, argv) => {
+  const nodeConfig = createConfigs(env, { ...argv, mode: "development" })[1];
+  return {
+    ...nodeConfig,
+    mode: "development",
+    entry: "./src/index.test.ts",
+    output: {
+      path: path.resolve("./build/test/"),
+      filename: "index.test.js",
+      chunkFilename: "[name].js",
+      libraryTarget: "commonjs2"
+    }
+  };
+};